@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { AdaptiveView } from "@/components/adaptive/adaptive-view";
+
+export const metadata: Metadata = {
+  title: "Adaptive practice",
+};
+
+export default function AdaptivePage() {
+  return <AdaptiveView />;
+}
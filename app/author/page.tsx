@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { AuthorView } from "@/components/author/author-view";
+
+export const metadata: Metadata = {
+  title: "Test editor",
+};
+
+export default function AuthorPage() {
+  return <AuthorView />;
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { BuilderView } from "@/components/builder/builder-view";
+
+export const metadata: Metadata = {
+  title: "Build my own practice",
+};
+
+export default function BuildPage() {
+  return <BuilderView />;
+}
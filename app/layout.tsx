@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { ProfileGate } from "@/components/profiles/profile-gate";
+import { UpdatePrompt } from "@/components/pwa/update-prompt";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -30,7 +32,8 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <ProfileGate>{children}</ProfileGate>
+        <UpdatePrompt />
       </body>
     </html>
   );
@@ -1,612 +1,283 @@
 'use client';
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-
-/** -----------------------------
- *  Helpers
- *  ----------------------------- */
-function normalize(s: string) {
-  return (s || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function containsAnyKeyword(text: string, keywords: string[] = []) {
-  const t = normalize(text);
-  return keywords.some((k) => t.includes(normalize(k)));
-}
-
-function equalsAny(text: string, accepted: string[] = []) {
-  const t = normalize(text);
-  return accepted.map(normalize).includes(t);
-}
-
-/** -----------------------------
- *  Question Types
- *  ----------------------------- */
-type MCQOption = { id: "a" | "b" | "c"; label: string };
-
-type ItemBase = {
-  id: string;
-  prompt: string;
-  guidance?: string;
-};
-
-type MCQItem = ItemBase & {
-  type: "mcq";
-  options: MCQOption[];
-  answer: "a" | "b" | "c";
-};
-
-type TextAutoItem = ItemBase & {
-  type: "text";
-  acceptedAnswers: string[]; // exact-ish match after normalize()
-};
-
-type ShortItem = ItemBase & {
-  type: "short";
-  keywords?: string[]; // for gentle hints only (not grading)
-};
-
-type WritingItem = ItemBase & {
-  type: "writing";
-};
-
-type Item = MCQItem | TextAutoItem | ShortItem | WritingItem;
-
-type Section = {
-  id: string;
-  name: string;
-  items: Item[];
-};
-
-type Test = {
-  title: string;
-  readingTitle: string;
-  readingText: string;
-  sections: Section[];
-};
-
-/** -----------------------------
- *  Tests
- *  ----------------------------- */
-const TESTS: Record<string, Test> = {
-  original: {
-    title: "Practice Test – Mixed Skills",
-    readingTitle: "A New School Year",
-    readingText: `Emma started 8th grade last Monday. She was nervous but excited. Her new school was bigger than her old one, and she had to find her classrooms on her own. At first, it was confusing, but her teachers were friendly and helpful.
-
-Emma’s favourite subject is English because she enjoys reading and writing stories. This year, she also joined the school drama club. She hopes it will help her become more confident.`,
-    sections: [
-      {
-        id: "reading",
-        name: "Task 1: Reading Comprehension",
-        items: [
-          {
-            id: "r1",
-            type: "short",
-            prompt: "How did Emma feel about starting 8th grade?",
-            guidance: "Write 1 sentence.",
-            keywords: ["nervous", "excited"],
-          },
-          {
-            id: "r2",
-            type: "short",
-            prompt: "Why was the new school difficult at first?",
-            guidance: "Write 1 sentence.",
-            keywords: ["bigger", "find", "classrooms", "on her own", "confusing"],
-          },
-          {
-            id: "r3",
-            type: "short",
-            prompt: "What is Emma’s favourite subject, and why?",
-            guidance: "Write 1 sentence.",
-            keywords: ["English", "reading", "writing", "stories"],
-          },
-          {
-            id: "r4",
-            type: "short",
-            prompt: "What does Emma hope the drama club will help her with?",
-            guidance: "Write 1 sentence.",
-            keywords: ["confident", "confidence"],
-          },
-        ],
-      },
-      {
-        id: "vocab",
-        name: "Task 2: Vocabulary",
-        items: [
-          {
-            id: "v1",
-            type: "mcq",
-            prompt: "Emma was ______ about her new school.",
-            options: [
-              { id: "a", label: "angry" },
-              { id: "b", label: "excited" },
-              { id: "c", label: "bored" },
-            ],
-            answer: "b",
-          },
-          {
-            id: "v2",
-            type: "mcq",
-            prompt: "The teachers were friendly and ______.",
-            options: [
-              { id: "a", label: "helpful" },
-              { id: "b", label: "noisy" },
-              { id: "c", label: "strict" },
-            ],
-            answer: "a",
-          },
-          {
-            id: "v3",
-            type: "mcq",
-            prompt: "Emma enjoys ______ stories.",
-            options: [
-              { id: "a", label: "breaking" },
-              { id: "b", label: "reading" },
-              { id: "c", label: "losing" },
-            ],
-            answer: "b",
-          },
-        ],
-      },
-      {
-        id: "grammar",
-        name: "Task 3: Grammar",
-        items: [
-          {
-            id: "g1",
-            type: "mcq",
-            prompt: "Emma ___ to school last Monday.",
-            options: [
-              { id: "a", label: "go" },
-              { id: "b", label: "goes" },
-              { id: "c", label: "went" },
-            ],
-            answer: "c",
-          },
-          {
-            id: "g2",
-            type: "mcq",
-            prompt: "She ___ English lessons every week.",
-            options: [
-              { id: "a", label: "has" },
-              { id: "b", label: "had" },
-              { id: "c", label: "will have" },
-            ],
-            answer: "a",
-          },
-          {
-            id: "g3",
-            type: "mcq",
-            prompt: "They ___ in the drama club tomorrow.",
-            options: [
-              { id: "a", label: "are" },
-              { id: "b", label: "were" },
-              { id: "c", label: "will be" },
-            ],
-            answer: "c",
-          },
-        ],
-      },
-      {
-        id: "structure",
-        name: "Task 4: Sentence Structure",
-        items: [
-          {
-            id: "s1",
-            type: "text",
-            prompt: "Put the words in the correct order: school / new / her / likes / she",
-            guidance: "Type the full sentence.",
-            acceptedAnswers: ["She likes her new school."],
-          },
-          {
-            id: "s2",
-            type: "text",
-            prompt: "Put the words in the correct order: English / favourite / is / subject / her",
-            guidance: "Type the full sentence.",
-            acceptedAnswers: ["English is her favourite subject."],
-          },
-        ],
-      },
-      {
-        id: "writing",
-        name: "Task 5: Writing",
-        items: [
-          {
-            id: "w1",
-            type: "writing",
-            prompt:
-              "Write 6–8 sentences about ONE: (1) Your favourite school subject, (2) Your first day at a new school, or (3) A hobby you enjoy.",
-            guidance:
-              "Use full sentences. Try correct verb tenses, spelling, and punctuation.",
-          },
-        ],
-      },
-      {
-        id: "instructions",
-        name: "Task 6: Instructions & Understanding",
-        items: [
-          {
-            id: "i1",
-            type: "short",
-            prompt: "Describe one thing you like about your school. (2–3 sentences.)",
-            guidance: "Write 2–3 sentences.",
-          },
-        ],
-      },
-      {
-        id: "listening",
-        name: "Task 7: Listening-style (Reading Instead)",
-        items: [
-          {
-            id: "l1",
-            type: "short",
-            prompt:
-              "Dialogue: Teacher: “Did you finish your homework?” Student: “I started it, but I didn’t understand the last task.”\n\nQuestion: Why didn’t the student finish the homework?",
-            guidance: "Write 1 sentence.",
-            keywords: ["didn’t understand", "last task"],
-          },
-        ],
-      },
-    ],
-  },
-
-  day1: {
-    title: "Practice Test – Reading & Vocabulary",
-    readingTitle: "After School Activities",
-    readingText: `Many students enjoy after-school activities. Some prefer sports like football or basketball, while others choose music, drama, or art clubs. These activities help students relax after a long school day and make new friends.
-
-Jake joined the school football team this year. At first, he felt unsure because he had never played before. However, his teammates supported him, and now he looks forward to practice every week.`,
-    sections: [
-      {
-        id: "reading",
-        name: "Task 1: Reading Comprehension",
-        items: [
-          {
-            id: "q1",
-            type: "short",
-            prompt: "Why do many students like after-school activities?",
-            guidance: "Write 1–2 sentences.",
-            keywords: ["relax", "friends", "make new friends"],
-          },
-          {
-            id: "q2",
-            type: "short",
-            prompt: "Name two types of after-school activities mentioned in the text.",
-            guidance: "Write two activities.",
-            keywords: ["football", "basketball", "music", "drama", "art"],
-          },
-          {
-            id: "q3",
-            type: "short",
-            prompt: "How did Jake feel at first when he joined the football team?",
-            guidance: "Write 1 sentence.",
-            keywords: ["unsure"],
-          },
-          {
-            id: "q4",
-            type: "short",
-            prompt: "Why does Jake enjoy practice now?",
-            guidance: "Write 1 sentence.",
-            keywords: ["teammates", "supported", "support"],
-          },
-        ],
-      },
-      {
-        id: "vocab",
-        name: "Task 2: Vocabulary",
-        items: [
-          {
-            id: "mc1",
-            type: "mcq",
-            prompt: "After-school activities help students ______.",
-            options: [
-              { id: "a", label: "worry" },
-              { id: "b", label: "relax" },
-              { id: "c", label: "argue" },
-            ],
-            answer: "b",
-          },
-          {
-            id: "mc2",
-            type: "mcq",
-            prompt: "Jake felt ______ at first.",
-            options: [
-              { id: "a", label: "confident" },
-              { id: "b", label: "unsure" },
-              { id: "c", label: "angry" },
-            ],
-            answer: "b",
-          },
-          {
-            id: "mc3",
-            type: "mcq",
-            prompt: "His teammates ______ him.",
-            options: [
-              { id: "a", label: "ignored" },
-              { id: "b", label: "supported" },
-              { id: "c", label: "forgot" },
-            ],
-            answer: "b",
-          },
-        ],
-      },
-      {
-        id: "context",
-        name: "Task 3: Vocabulary in Context",
-        items: [
-          {
-            id: "mc4",
-            type: "mcq",
-            prompt: "I like joining clubs because I can make new ______.",
-            options: [
-              { id: "a", label: "homework" },
-              { id: "b", label: "friends" },
-              { id: "c", label: "teachers" },
-            ],
-            answer: "b",
-          },
-          {
-            id: "mc5",
-            type: "mcq",
-            prompt: "She looks forward to football ______ every week.",
-            options: [
-              { id: "a", label: "practice" },
-              { id: "b", label: "break" },
-              { id: "c", label: "lesson" },
-            ],
-            answer: "a",
-          },
-        ],
-      },
-      {
-        id: "writing",
-        name: "Task 4: Short Answer",
-        items: [
-          {
-            id: "wDay1",
-            type: "writing",
-            prompt: "What after-school activity would you like to join, and why?",
-            guidance: "Write ONE full sentence.",
-          },
-        ],
-      },
-      {
-        id: "title",
-        name: "Task 5: Instructions",
-        items: [
-          {
-            id: "mc6",
-            type: "mcq",
-            prompt: "Choose the best title for the text.",
-            options: [
-              { id: "a", label: "A Difficult School Day" },
-              { id: "b", label: "Learning in the Classroom" },
-              { id: "c", label: "After-School Activities" },
-            ],
-            answer: "c",
-          },
-        ],
-      },
-    ],
-  },
-
-  day2: {
-    title: "Practice Test – Grammar & Sentences",
-    readingTitle: "School Life",
-    readingText: `Tom goes to a secondary school in a small town. He likes English lessons, but he finds grammar difficult. Every day, he practices by writing short sentences and reading English texts.`,
-    sections: [
-      {
-        id: "grammar",
-        name: "Task 1: Grammar (Choose the correct answer)",
-        items: [
-          {
-            id: "d2_1",
-            type: "mcq",
-            prompt: "Tom ____ to a secondary school.",
-            options: [
-              { id: "a", label: "go" },
-              { id: "b", label: "goes" },
-              { id: "c", label: "went" },
-            ],
-            answer: "b",
-          },
-          {
-            id: "d2_2",
-            type: "mcq",
-            prompt: "He ____ grammar difficult.",
-            options: [
-              { id: "a", label: "finds" },
-              { id: "b", label: "found" },
-              { id: "c", label: "will find" },
-            ],
-            answer: "a",
-          },
-          {
-            id: "d2_3",
-            type: "mcq",
-            prompt: "Yesterday, Tom ____ English texts.",
-            options: [
-              { id: "a", label: "reads" },
-              { id: "b", label: "read" },
-              { id: "c", label: "will read" },
-            ],
-            answer: "b",
-          },
-        ],
-      },
-      {
-        id: "sentences",
-        name: "Task 2: Build sentences",
-        items: [
-          {
-            id: "d2_s1",
-            type: "text",
-            prompt: "Write this in the past tense: “Tom goes to school.”",
-            guidance: "Type the full sentence.",
-            acceptedAnswers: ["Tom went to school."],
-          },
-          {
-            id: "d2_s2",
-            type: "short",
-            prompt: "Write one sentence in the present tense about yourself.",
-            guidance: "Example: I play football. / I like English.",
-          },
-          {
-            id: "d2_s3",
-            type: "short",
-            prompt: "Write one sentence in the future tense about tomorrow.",
-            guidance: "Example: I will study English tomorrow.",
-            keywords: ["will"],
-          },
-        ],
-      },
-      {
-        id: "writing",
-        name: "Task 3: Short Writing",
-        items: [
-          {
-            id: "d2_w1",
-            type: "writing",
-            prompt: "Write 3–4 sentences: How do you practice English outside school?",
-            guidance: "Use full sentences.",
-          },
-        ],
-      },
-    ],
-  },
-};
-
-/** -----------------------------
- *  UI Pieces
- *  ----------------------------- */
-function RadioOption({
-  name,
-  value,
-  checked,
-  onChange,
-  label,
-}: {
-  name: string;
-  value: string;
-  checked: boolean;
-  onChange: (val: string) => void;
-  label: string;
-}) {
-  return (
-    <label className="flex items-start gap-3 p-3 rounded-2xl border hover:bg-muted/40 cursor-pointer">
-      <input
-        className="mt-1"
-        type="radio"
-        name={name}
-        value={value}
-        checked={checked}
-        onChange={() => onChange(value)}
-      />
-      <span className="text-sm leading-5">{label}</span>
-    </label>
-  );
-}
+import { DEFAULT_TEST_KEY } from "@/lib/tests/registry";
+import { writeJSON } from "@/lib/storage";
+import {
+  LAST_TEST_STORAGE_KEY,
+  clearSavedAttempt,
+  hasProgress,
+  saveAttempt,
+  savedAttemptKey,
+  type SavedAttempt,
+  type Tab,
+} from "@/lib/saved-attempts";
+import { formatPoints, isAnswered, scoreTest } from "@/lib/scoring";
+import { HISTORY_STORAGE_KEY, newAttemptId, recordAttempt, updateAttempt, type AttemptRecord } from "@/lib/history";
+import type { WritingScore, WritingScores } from "@/lib/writing-rubric";
+import { addLookup } from "@/lib/glossary";
+import type { ListeningPlays } from "@/lib/listening";
+import { addToDeck, collectDeckWords } from "@/lib/vocab-deck";
+import { newShuffleSeed, shuffleTest } from "@/lib/shuffle";
+import {
+  defaultExamSettings,
+  examDeadline,
+  examTiming,
+  sectionLimitMs,
+  startExam,
+  warnAtMs,
+  type ExamSettings,
+  type ExamState,
+} from "@/lib/exam";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import { useClock } from "@/hooks/use-clock";
+import { useLocale } from "@/hooks/use-locale";
+import { useStudentName } from "@/hooks/use-profile";
+import { ResultsView } from "@/components/practice/results-view";
+import { AttemptExportButtons } from "@/components/practice/attempt-export";
+import { TestSection } from "@/components/practice/test-section";
+import { ExamCountdown, ExamSettingsCard } from "@/components/practice/exam-controls";
+import { GlossedText } from "@/components/practice/glossed-text";
+import { ShuffleOptionCard } from "@/components/practice/shuffle-option";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+import { ProfileChip } from "@/components/profiles/profiles-view";
 
 /** -----------------------------
  *  App
  *  ----------------------------- */
 export default function App() {
-  const [selectedTestKey, setSelectedTestKey] = useState<keyof typeof TESTS>("day1");
-  const TEST = TESTS[selectedTestKey];
-
-  const [tab, setTab] = useState<"read" | "test" | "results">("read");
+  const { t, dateLocale } = useLocale();
+  const studentName = useStudentName();
+  const lastTestKey = useStoredJSON<string>(LAST_TEST_STORAGE_KEY);
+  const catalogue = useTestCatalogue();
+  const selectedEntry =
+    catalogue.find((e) => e.key === lastTestKey) ??
+    catalogue.find((e) => e.key === DEFAULT_TEST_KEY) ??
+    catalogue[0];
+  const selectedTestKey = selectedEntry.key;
+
+  // Optional mixed-up order: chosen on the Reading tab, fixed by a seed when the test starts.
+  const [shuffleChosen, setShuffleChosen] = useState(false);
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  // The test as this attempt shows it; ids, answers and scores don't depend on the order.
+  const TEST = useMemo(() => shuffleTest(selectedEntry.test, shuffleSeed), [selectedEntry.test, shuffleSeed]);
+
+  const [tab, setTab] = useState<Tab>("read");
   const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [selfScoreWriting, setSelfScoreWriting] = useState<number | null>(null); // 0 or 1
+  const [writingScores, setWritingScores] = useState<WritingScores>({});
+  const [plays, setPlays] = useState<ListeningPlays>({});
+  const [lookups, setLookups] = useState<string[]>([]);
   const [finished, setFinished] = useState(false);
+  const [attemptId, setAttemptId] = useState<string | null>(null); // the history record once finished
+  const [announcement, setAnnouncement] = useState(""); // read out by screen readers once set
+  const history = useStoredJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY);
+  const attemptRecord = history?.find((a) => a.id === attemptId);
+
+  // Exam mode: settings chosen on the Reading tab (null = the test's defaults), and the running exam.
+  const [examSettingsDraft, setExamSettings] = useState<ExamSettings | null>(null);
+  const examSettings = examSettingsDraft ?? defaultExamSettings(TEST);
+  const [exam, setExam] = useState<ExamState | null>(null);
+  const examRunning = !!exam && exam.finishedAt === undefined;
+
+  // Autosaved attempt for the selected test. Until the student chooses to resume or start fresh,
+  // the saved attempt is offered instead of the tabs.
+  const saved = useStoredJSON<SavedAttempt>(savedAttemptKey(selectedTestKey));
+  const [resumeCheckedFor, setResumeCheckedFor] = useState<string | null>(null);
+  const inMemoryProgress = hasProgress({ answers, writingScores, plays, lookups, exam });
+  const resumePending =
+    resumeCheckedFor !== selectedTestKey && !inMemoryProgress && !!saved && hasProgress(saved);
+  const view = resumePending ? "resume" : tab;
+
+  useEffect(() => {
+    if (!inMemoryProgress) return; // never overwrite a saved attempt with an empty one
+    saveAttempt({
+      testKey: selectedTestKey,
+      answers,
+      writingScores,
+      plays,
+      lookups,
+      finished,
+      attemptId,
+      tab,
+      exam,
+      shuffleSeed,
+      savedAt: Date.now(),
+    });
+  }, [selectedTestKey, answers, writingScores, plays, lookups, finished, attemptId, tab, exam, shuffleSeed, inMemoryProgress]);
 
-  const allItems = useMemo(
-    () =>
-      TEST.sections.flatMap((s) => s.items.map((it) => ({ ...it, sectionName: s.name }))),
-    [TEST]
-  );
+  const allItems = useMemo(() => TEST.sections.flatMap((s) => s.items), [TEST]);
 
-  const autoScoredItems = useMemo(
-    () => allItems.filter((it) => it.type === "mcq" || it.type === "text"),
-    [allItems]
+  const attemptedCount = useMemo(
+    () => allItems.filter((it) => isAnswered(it, answers)).length,
+    [allItems, answers]
   );
 
-  const totalAutoPoints = autoScoredItems.length;
-  const totalPoints = totalAutoPoints + 1; // +1 optional writing self-check
-
-  const attemptedCount = useMemo(() => {
-    return allItems.filter((it) => {
-      const a = answers[it.id];
-      if (it.type === "mcq") return !!a;
-      return typeof a === "string" && a.trim().length > 0;
-    }).length;
-  }, [allItems, answers]);
-
   const progress = useMemo(() => {
     return Math.round((attemptedCount / allItems.length) * 100);
   }, [attemptedCount, allItems.length]);
 
-  const isComplete = useMemo(() => {
-    // Require every question to be answered before "Finish"
-    return allItems.every((it) => {
-      const a = answers[it.id];
-      if (it.type === "mcq") return !!a;
-      return typeof a === "string" && a.trim().length > 0;
-    });
-  }, [allItems, answers]);
-
-  const autoScore = useMemo(() => {
-    let correct = 0;
-    for (const it of autoScoredItems) {
-      const given = answers[it.id] || "";
-      if (it.type === "mcq") {
-        if (given === it.answer) correct += 1;
-      } else if (it.type === "text") {
-        if (equalsAny(given, it.acceptedAnswers)) correct += 1;
-      }
-    }
-    return correct;
-  }, [answers, autoScoredItems]);
-
-  const finalScore = autoScore + (selfScoreWriting ?? 0);
-
-  const shortHints = useMemo(() => {
-    const shortItems = allItems.filter((it) => it.type === "short") as ShortItem[];
-    return shortItems.map((it) => {
-      const text = answers[it.id] || "";
-      const ok = text.trim().length > 0;
-      const hasHint = it.keywords?.length ? containsAnyKeyword(text, it.keywords) : true;
-      return { id: it.id, prompt: it.prompt, ok, hasHint, keywords: it.keywords || [] };
-    });
-  }, [allItems, answers]);
+  // Require every question to be answered before "Finish"
+  const isComplete = attemptedCount === allItems.length;
 
   function setAnswer(id: string, value: string) {
     setAnswers((prev) => ({ ...prev, [id]: value }));
   }
 
+  function setWritingScore(itemId: string, score: WritingScore) {
+    setWritingScores((prev) => ({ ...prev, [itemId]: score }));
+  }
+
+  function countPlay(itemId: string) {
+    setPlays((prev) => ({ ...prev, [itemId]: (prev[itemId] ?? 0) + 1 }));
+  }
+
+  // A teacher or parent scoring the writing on Results also rescores the history record.
+  function reviewWritingScore(itemId: string, score: WritingScore) {
+    const next = { ...writingScores, [itemId]: score };
+    setWritingScores(next);
+    if (!attemptId) return;
+    const summary = scoreTest(TEST, answers, next);
+    updateAttempt(attemptId, {
+      writingScores: next,
+      score: summary.finalScore,
+      totalPoints: summary.totalPoints,
+      sections: summary.sections,
+    });
+  }
+
+  function finishTest(autoSubmitted = false) {
+    if (finished) return; // an attempt is recorded once; "Start over" begins a new one
+    const summary = scoreTest(TEST, answers, writingScores);
+    const endedExam = examRunning ? { ...exam, finishedAt: Date.now(), autoSubmitted } : exam;
+    const id = newAttemptId();
+    setExam(endedExam);
+    setAttemptId(id);
+    recordAttempt({
+      id,
+      testKey: selectedTestKey,
+      testTitle: TEST.title,
+      finishedAt: Date.now(),
+      answers,
+      writingScores,
+      lookups,
+      score: summary.finalScore,
+      totalPoints: summary.totalPoints,
+      sections: summary.sections,
+      timing: endedExam ? (examTiming(TEST, endedExam) ?? undefined) : undefined,
+      shuffleSeed: shuffleSeed ?? undefined,
+    });
+    addToDeck(collectDeckWords(TEST, answers, lookups), Date.now());
+    setAnnouncement(t.finish.finished(formatPoints(summary.finalScore), summary.totalPoints, autoSubmitted));
+    setFinished(true);
+    setTab("results");
+  }
+
+  function startTest() {
+    if (examSettings.enabled && !exam && !finished) setExam(startExam(examSettings, Date.now()));
+    if (shuffleChosen && shuffleSeed === null && !finished) setShuffleSeed(newShuffleSeed());
+    setTab("test");
+  }
+
+  function nextExamSection() {
+    if (!exam) return;
+    setExam({ ...exam, sectionIndex: exam.sectionIndex + 1, sectionStartedAt: Date.now() });
+  }
+
+  // When the countdown runs out: move on to the next section, or hand the test in as it is.
+  const onExamTimeUp = useEffectEvent(() => {
+    if (!exam || exam.finishedAt !== undefined) return;
+    if (exam.mode === "section" && exam.sectionIndex < TEST.sections.length - 1) nextExamSection();
+    else finishTest(true);
+  });
+
+  useEffect(() => {
+    if (!exam || exam.finishedAt !== undefined || resumePending) return;
+    const id = window.setTimeout(onExamTimeUp, Math.max(0, examDeadline(TEST, exam) - Date.now()));
+    return () => window.clearTimeout(id);
+  }, [exam, TEST, resumePending]);
+
+  const now = useClock(examRunning && view === "test");
+  const examSections =
+    examRunning && exam.mode === "section" ? [TEST.sections[exam.sectionIndex]] : TEST.sections;
+  const onLastExamSection = !examRunning || exam.mode === "total" || exam.sectionIndex >= TEST.sections.length - 1;
+
+  // Switching between Reading, Test and Results (or to the next exam section) replaces the page
+  // content, so focus moves to the new view's heading rather than staying on a button that may be gone.
+  const viewHeading = useRef<HTMLHeadingElement>(null);
+  const viewKey = `${view}:${exam?.sectionIndex ?? 0}`;
+  const focusedViewKey = useRef(viewKey);
+  useEffect(() => {
+    if (focusedViewKey.current === viewKey) return;
+    focusedViewKey.current = viewKey;
+    viewHeading.current?.focus();
+  }, [viewKey]);
+  const viewTitle = { resume: t.resume.title, read: t.nav.reading, test: t.nav.test, results: t.nav.results }[view];
+
+  // Disabled controls say why next to them; a tooltip is invisible to touch and screen-reader users.
+  const lockedInTest = tab === "test" && !finished;
+  const stepReasons = [
+    { id: "reason-resume", text: t.nav.resumeFirst, shown: resumePending },
+    { id: "reason-back", text: t.nav.finishToGoBack, shown: !resumePending && lockedInTest },
+    { id: "reason-results", text: t.nav.finishToViewResults, shown: !resumePending && !finished },
+  ].filter((r) => r.shown);
+  const readReason = resumePending ? "reason-resume" : lockedInTest ? "reason-back" : undefined;
+  const resultsReason = resumePending ? "reason-resume" : !finished ? "reason-results" : undefined;
+
+  function resumeSavedAttempt() {
+    if (!saved) return;
+    setAnswers(saved.answers);
+    setWritingScores(saved.writingScores ?? {});
+    setPlays(saved.plays ?? {});
+    setLookups(saved.lookups ?? []);
+    setFinished(saved.finished);
+    setAttemptId(saved.attemptId ?? null);
+    setTab(saved.tab);
+    setExam(saved.exam ?? null);
+    setShuffleSeed(saved.shuffleSeed ?? null);
+    setResumeCheckedFor(selectedTestKey);
+  }
+
+  function discardSavedAttempt() {
+    clearSavedAttempt(selectedTestKey);
+    setResumeCheckedFor(selectedTestKey);
+  }
+
   function resetAllToReading() {
+    clearSavedAttempt(selectedTestKey);
     setAnswers({});
-    setSelfScoreWriting(null);
+    setWritingScores({});
+    setPlays({});
+    setLookups([]);
     setFinished(false);
+    setAttemptId(null);
     setTab("read");
+    setExam(null);
+    setShuffleSeed(null);
+    setAnnouncement("");
   }
 
-  function onChangeTest(key: keyof typeof TESTS) {
-    setSelectedTestKey(key);
-    // Reset everything when switching tests
+  function onChangeTest(key: string) {
+    writeJSON(LAST_TEST_STORAGE_KEY, key);
+    // Reset everything when switching tests. The old test's attempt stays saved,
+    // and the new test offers its own saved attempt (if any) again.
     setAnswers({});
-    setSelfScoreWriting(null);
+    setWritingScores({});
+    setPlays({});
+    setLookups([]);
     setFinished(false);
+    setAttemptId(null);
     setTab("read");
+    setExam(null);
+    setExamSettings(null);
+    setShuffleSeed(null);
+    setResumeCheckedFor(null);
+    setAnnouncement("");
   }
 
   return (
@@ -616,318 +287,312 @@ export default function App() {
           <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
             <div className="space-y-2">
               <div className="flex flex-col gap-2">
-                <label className="text-sm text-muted-foreground">Choose practice test</label>
+                <label htmlFor="test-picker" className="text-sm text-muted-foreground">
+                  {t.app.choosePracticeTest}
+                </label>
                 <select
+                  id="test-picker"
                   className="rounded-xl border p-2 max-w-sm bg-background"
                   value={selectedTestKey}
-                  onChange={(e) => onChangeTest(e.target.value as keyof typeof TESTS)}
-                  disabled={tab === "test" && !finished}
-                  title={tab === "test" && !finished ? "Finish the test before switching tests." : undefined}
+                  onChange={(e) => onChangeTest(e.target.value)}
+                  disabled={lockedInTest}
+                  aria-describedby={lockedInTest ? "test-picker-reason" : undefined}
                 >
-                  <option value="day1">Reading & Vocabulary</option>
-                  <option value="original">Mixed Skills</option>
-                  <option value="day2">Grammar & Sentences</option>
+                  {catalogue
+                    .filter((entry) => !entry.authored)
+                    .map((entry) => (
+                      <option key={entry.key} value={entry.key}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  {catalogue.some((entry) => entry.authored) ? (
+                    <optgroup label={t.app.authoredGroup}>
+                      {catalogue
+                        .filter((entry) => entry.authored)
+                        .map((entry) => (
+                          <option key={entry.key} value={entry.key}>
+                            {entry.label}
+                          </option>
+                        ))}
+                    </optgroup>
+                  ) : null}
                 </select>
+                {lockedInTest ? (
+                  <p id="test-picker-reason" className="text-sm text-muted-foreground">
+                    {t.app.finishBeforeSwitching}
+                  </p>
+                ) : null}
               </div>
 
-              <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{TEST.title}</h1>
-              <p className="text-sm text-muted-foreground">
-                Read the text, take the test, then see your score at the end.
-              </p>
+              <h1 lang="en" className="text-2xl md:text-3xl font-semibold tracking-tight">
+                {TEST.title}
+              </h1>
+              <p className="text-sm text-muted-foreground">{t.app.intro}</p>
             </div>
 
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <ProfileChip />
+              <LocaleSwitch />
               <Badge variant="secondary" className="rounded-full">
-                Progress: {progress}%
+                {t.app.progress(progress)}
               </Badge>
               <div className="w-40">
-                <Progress value={progress} />
+                <Progress value={progress} aria-label={t.app.progressLabel} />
               </div>
             </div>
           </div>
         </header>
 
-        <div className="flex flex-wrap gap-2">
-          <Button
-            variant={tab === "read" ? "default" : "secondary"}
-            className="rounded-2xl"
-            onClick={() => setTab("read")}
-            disabled={tab === "test" && !finished}
-            title={tab === "test" && !finished ? "Finish the test to go back to Reading." : undefined}
-          >
-            Reading
-          </Button>
-
-          <Button
-            variant={tab === "test" ? "default" : "secondary"}
-            className="rounded-2xl"
-            onClick={() => setTab("test")}
-          >
-            Test
-          </Button>
-
-          <Button
-            variant={tab === "results" ? "default" : "secondary"}
-            className="rounded-2xl"
-            onClick={() => setTab("results")}
-            disabled={!finished}
-            title={!finished ? "Finish the test to view results." : undefined}
-          >
-            Results
-          </Button>
+        <nav aria-label={t.nav.label} className="flex flex-wrap gap-2">
+          <div role="group" aria-label={t.nav.steps} className="flex flex-wrap gap-2">
+            <Button
+              variant={tab === "read" ? "default" : "secondary"}
+              className="rounded-2xl"
+              onClick={() => setTab("read")}
+              disabled={!!readReason}
+              aria-current={view === "read" ? "step" : undefined}
+              aria-describedby={readReason}
+            >
+              {t.nav.reading}
+            </Button>
+
+            <Button
+              variant={tab === "test" ? "default" : "secondary"}
+              className="rounded-2xl"
+              onClick={startTest}
+              disabled={resumePending}
+              aria-current={view === "test" ? "step" : undefined}
+              aria-describedby={resumePending ? "reason-resume" : undefined}
+            >
+              {t.nav.test}
+            </Button>
+
+            <Button
+              variant={tab === "results" ? "default" : "secondary"}
+              className="rounded-2xl"
+              onClick={() => setTab("results")}
+              disabled={!!resultsReason}
+              aria-current={view === "results" ? "step" : undefined}
+              aria-describedby={resultsReason}
+            >
+              {t.nav.results}
+            </Button>
+          </div>
 
           <div className="flex-1" />
 
+          <Button asChild variant="outline" className="rounded-2xl">
+            <Link href="/history">{t.nav.history}</Link>
+          </Button>
+          <Button asChild variant="outline" className="rounded-2xl">
+            <Link href="/review">{t.nav.review}</Link>
+          </Button>
+          <Button asChild variant="outline" className="rounded-2xl">
+            <Link href="/build">{t.nav.build}</Link>
+          </Button>
+          <Button asChild variant="outline" className="rounded-2xl">
+            <Link href="/adaptive">{t.nav.adaptive}</Link>
+          </Button>
+          <Button asChild variant="outline" className="rounded-2xl">
+            <Link href="/author">{t.nav.testEditor}</Link>
+          </Button>
+          <Button asChild variant="outline" className="rounded-2xl">
+            <Link href="/teacher">{t.nav.teacher}</Link>
+          </Button>
           <Button variant="outline" className="rounded-2xl" onClick={resetAllToReading}>
-            Reset
+            {t.nav.reset}
           </Button>
-        </div>
-
-        {tab === "read" && (
-          <Card className="rounded-3xl shadow-sm">
-            <CardHeader>
-              <CardTitle className="text-xl">{TEST.readingTitle}</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <p className="whitespace-pre-line leading-7">{TEST.readingText}</p>
-              <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
-                <div className="text-sm text-muted-foreground">
-                  Tip: Read once for meaning, then again to find details.
-                </div>
-                <Button className="rounded-2xl" onClick={() => setTab("test")}>
-                  Start the test
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {tab === "test" && (
-          <div className="space-y-6">
-            {TEST.sections.map((section) => (
-              <Card key={section.id} className="rounded-3xl shadow-sm">
-                <CardHeader>
-                  <CardTitle className="text-lg">{section.name}</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  {section.items.map((it, idx) => (
-                    <div key={it.id} className="space-y-3">
-                      <div className="flex items-start gap-2">
-                        <Badge variant="secondary" className="rounded-full">
-                          {idx + 1}
-                        </Badge>
-                        <div>
-                          <div className="font-medium whitespace-pre-line">{it.prompt}</div>
-                          {it.guidance ? (
-                            <div className="text-sm text-muted-foreground mt-1">{it.guidance}</div>
-                          ) : null}
-                        </div>
-                      </div>
-
-                      {it.type === "mcq" && (
-                        <div className="grid gap-2">
-                          {it.options.map((opt) => (
-                            <RadioOption
-                              key={opt.id}
-                              name={it.id}
-                              value={opt.id}
-                              label={`${opt.id.toUpperCase()}) ${opt.label}`}
-                              checked={(answers[it.id] || "") === opt.id}
-                              onChange={(val) => setAnswer(it.id, val)}
-                            />
-                          ))}
-                        </div>
-                      )}
-
-                      {(it.type === "short" || it.type === "text") && (
-                        <Textarea
-                          className="rounded-2xl min-h-[90px]"
-                          placeholder="Write your answer here…"
-                          value={answers[it.id] || ""}
-                          onChange={(e) => setAnswer(it.id, e.target.value)}
-                        />
-                      )}
-
-                      {it.type === "writing" && (
-                        <div className="space-y-3">
-                          <Textarea
-                            className="rounded-2xl min-h-[140px]"
-                            placeholder="Write your answer here…"
-                            value={answers[it.id] || ""}
-                            onChange={(e) => setAnswer(it.id, e.target.value)}
-                          />
-
-                          <div className="p-3 rounded-2xl border bg-muted/30">
-                            <div className="text-sm font-medium">Self-check (for 1 point)</div>
-                            <ul className="text-sm text-muted-foreground list-disc pl-5 mt-2 space-y-1">
-                              <li>Did you follow the instruction (number of sentences)?</li>
-                              <li>Are your sentences clear and understandable?</li>
-                              <li>Did you try correct verb tenses and punctuation?</li>
-                            </ul>
-                            <div className="flex flex-wrap gap-2 mt-3">
-                              <Button
-                                type="button"
-                                variant={selfScoreWriting === 1 ? "default" : "secondary"}
-                                className="rounded-2xl"
-                                onClick={() => setSelfScoreWriting(1)}
-                              >
-                                Yes (1 point)
-                              </Button>
-                              <Button
-                                type="button"
-                                variant={selfScoreWriting === 0 ? "default" : "secondary"}
-                                className="rounded-2xl"
-                                onClick={() => setSelfScoreWriting(0)}
-                              >
-                                Not yet (0)
-                              </Button>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-
-                      <div className="h-px bg-border" />
-                    </div>
-                  ))}
-
-                  <div className="text-sm text-muted-foreground">
-                    Answer all questions, then scroll down and click <span className="font-medium">Finish test</span>.
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
 
-            <Card className="rounded-3xl shadow-sm">
-              <CardHeader>
-                <CardTitle className="text-lg">Finish</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="text-sm text-muted-foreground">
-                  Results will be available only after you finish the test.
-                </div>
-                <Button
-                  className="rounded-2xl"
-                  disabled={!isComplete}
-                  onClick={() => {
-                    setFinished(true);
-                    setTab("results");
-                  }}
-                >
-                  {isComplete ? "Finish test and view results" : "Answer all questions to finish"}
-                </Button>
-              </CardContent>
-            </Card>
+          {stepReasons.length ? (
+            <div className="w-full text-sm text-muted-foreground">
+              {stepReasons.map((r) => (
+                <p key={r.id} id={r.id}>
+                  {r.text}
+                </p>
+              ))}
+            </div>
+          ) : null}
+        </nav>
+
+        <main className="space-y-6">
+          <h2 ref={viewHeading} tabIndex={-1} className="sr-only">
+            {viewTitle}
+          </h2>
+          {/* Progress only changes when a question is answered or cleared, so reading it out stays quiet. */}
+          <div className="sr-only" role="status">
+            {view === "test" ? t.app.answered(attemptedCount, allItems.length) : ""}
+          </div>
+          <div className="sr-only" role="status">
+            {announcement}
           </div>
-        )}
 
-        {tab === "results" && (
-          <div className="space-y-6">
+          {view === "resume" && saved && (
             <Card className="rounded-3xl shadow-sm">
               <CardHeader>
-                <CardTitle className="text-xl">Your Score</CardTitle>
+                <CardTitle className="text-xl">{t.resume.title}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
-                  <div>
-                    <div className="text-3xl font-semibold">
-                      {finalScore} / {totalPoints}
-                    </div>
-                    <div className="text-sm text-muted-foreground mt-1">
-                      Auto-scored: {autoScore} / {totalAutoPoints} • Writing self-check:{" "}
-                      {selfScoreWriting ?? "—"} / 1
-                    </div>
-                  </div>
-                  <div className="w-full md:w-64">
-                    <Progress value={Math.round((finalScore / totalPoints) * 100)} />
-                    <div className="text-sm text-muted-foreground mt-1">
-                      {Math.round((finalScore / totalPoints) * 100)}%
-                    </div>
-                  </div>
+                <div className="text-sm text-muted-foreground">
+                  {t.resume.savedOn(new Date(saved.savedAt).toLocaleString(dateLocale), saved.finished)}
                 </div>
-
-                <div className="p-3 rounded-2xl border bg-muted/30 text-sm">
-                  <div className="font-medium">How to improve next time</div>
-                  <ul className="list-disc pl-5 mt-2 space-y-1 text-muted-foreground">
-                    <li>Re-read the text and underline key details.</li>
-                    <li>Practice common verbs in present, past, and future tense.</li>
-                    <li>Answer in full sentences when asked.</li>
-                  </ul>
+                <div className="flex flex-wrap gap-2">
+                  <Button className="rounded-2xl" onClick={resumeSavedAttempt}>
+                    {t.resume.resume}
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={discardSavedAttempt}>
+                    {t.resume.startFresh}
+                  </Button>
                 </div>
               </CardContent>
             </Card>
+          )}
 
-            <Card className="rounded-3xl shadow-sm">
-              <CardHeader>
-                <CardTitle className="text-lg">Short Answer Hints</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="text-sm text-muted-foreground">
-                  Gentle hints based on keywords (not strict grading).
-                </div>
+          {view === "read" && !exam && !finished && (
+            <ExamSettingsCard test={TEST} settings={examSettings} onChange={setExamSettings} />
+          )}
 
-                {shortHints.map((h) => (
-                  <div key={h.id} className="p-3 rounded-2xl border">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="font-medium whitespace-pre-line">{h.prompt}</div>
-                      <Badge className="rounded-full" variant={h.ok && h.hasHint ? "default" : "secondary"}>
-                        {h.ok ? (h.hasHint ? "Looks on track" : "Check details") : "Not answered"}
-                      </Badge>
-                    </div>
-                    {h.ok && !h.hasHint && h.keywords.length > 0 ? (
-                      <div className="text-sm text-muted-foreground mt-2">
-                        Tip: Try including one of these ideas: {h.keywords.join(", ")}
-                      </div>
-                    ) : null}
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+          {view === "read" && !finished && (
+            <ShuffleOptionCard
+              checked={shuffleChosen || shuffleSeed !== null}
+              locked={shuffleSeed !== null}
+              onChange={setShuffleChosen}
+            />
+          )}
 
+          {view === "read" && (
             <Card className="rounded-3xl shadow-sm">
               <CardHeader>
-                <CardTitle className="text-lg">Export / Share</CardTitle>
+                <CardTitle lang="en" className="text-xl">
+                  {TEST.readingTitle}
+                </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="text-sm text-muted-foreground">
-                  Copy your answers to share with a teacher/parent.
+              <CardContent className="space-y-4">
+                <GlossedText
+                  text={TEST.readingText}
+                  glossary={TEST.glossary}
+                  onLookup={finished ? undefined : (word) => setLookups((prev) => addLookup(prev, word))}
+                />
+                <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+                  <div className="text-sm text-muted-foreground">{t.reading.tip}</div>
+                  <Button className="rounded-2xl" onClick={startTest}>
+                    {examSettings.enabled && !exam && !finished ? t.reading.startTimed : t.reading.start}
+                  </Button>
                 </div>
-                <Textarea
-                  className="rounded-2xl min-h-[180px]"
-                  readOnly
-                  value={TEST.sections
-                    .flatMap((s) =>
-                      s.items.map((it) => {
-                        const a = answers[it.id];
-                        if (it.type === "mcq") {
-                          const label = it.options.find((o) => o.id === a)?.label;
-                          return `${s.name} • ${it.prompt}\nAnswer: ${
-                            a ? a.toUpperCase() + ") " + label : "—"
-                          }`;
-                        }
-                        return `${s.name} • ${it.prompt}\nAnswer: ${
-                          a && String(a).trim().length ? a : "—"
-                        }`;
-                      })
-                    )
-                    .join("\n\n")}
+              </CardContent>
+            </Card>
+          )}
+
+          {view === "test" && (
+            <div className="space-y-6">
+              {examRunning && (
+                <ExamCountdown
+                  remainingMs={now === null ? null : examDeadline(TEST, exam) - now}
+                  warnAtMs={warnAtMs(TEST, exam)}
+                  label={
+                    exam.mode === "section"
+                      ? t.exam.sectionOf(
+                          exam.sectionIndex + 1,
+                          TEST.sections.length,
+                          Math.round(sectionLimitMs(TEST, exam, exam.sectionIndex) / 60000)
+                        )
+                      : t.exam.timeLeft
+                  }
+                />
+              )}
+
+              {examSections.map((section) => (
+                <TestSection
+                  key={section.id}
+                  section={section}
+                  answers={answers}
+                  onAnswer={setAnswer}
+                  writingScores={writingScores}
+                  onWritingScore={setWritingScore}
+                  plays={plays}
+                  onPlay={countPlay}
+                  readOnly={finished}
                 />
+              ))}
 
-                <div className="flex flex-wrap gap-2">
+              <Card className="rounded-3xl shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    {finished ? t.finish.finishedTitle : onLastExamSection ? t.finish.finishTitle : t.finish.nextTitle}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {finished ? (
+                    <>
+                      <div className="text-sm text-muted-foreground">{t.finish.finishedReadOnly}</div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button className="rounded-2xl" onClick={() => setTab("results")}>
+                          {t.finish.viewResults}
+                        </Button>
+                        <Button variant="secondary" className="rounded-2xl" onClick={resetAllToReading}>
+                          {t.finish.startOver}
+                        </Button>
+                      </div>
+                    </>
+                  ) : onLastExamSection ? (
+                    <>
+                      <div className="text-sm text-muted-foreground">
+                        {t.finish.resultsAfterFinish}
+                        {examRunning && !isComplete
+                          ? ` ${t.finish.unansweredWillScoreZero(allItems.length - attemptedCount)}`
+                          : ""}
+                      </div>
+                      <Button
+                        className="rounded-2xl"
+                        disabled={!isComplete && !examRunning}
+                        aria-describedby={!isComplete && !examRunning ? "finish-reason" : undefined}
+                        onClick={() => finishTest()}
+                      >
+                        {isComplete || examRunning ? t.finish.finishAndView : t.finish.answerAllToFinish}
+                      </Button>
+                      {!isComplete && !examRunning ? (
+                        <p id="finish-reason" className="text-sm text-muted-foreground">
+                          {t.finish.stillUnanswered(allItems.length - attemptedCount)}
+                        </p>
+                      ) : null}
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-sm text-muted-foreground">{t.finish.noComingBack}</div>
+                      <Button className="rounded-2xl" onClick={nextExamSection}>
+                        {t.finish.nextSection}
+                      </Button>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {view === "results" && (
+            <ResultsView
+              test={TEST}
+              answers={answers}
+              writingScores={writingScores}
+              onWritingScore={reviewWritingScore}
+              lookups={lookups}
+              timing={exam ? examTiming(TEST, exam) : null}
+              studentName={studentName}
+              actions={
+                <>
                   <Button className="rounded-2xl" onClick={() => setTab("test")}>
-                    Back to test
+                    {t.finish.backToTest}
                   </Button>
                   <Button variant="secondary" className="rounded-2xl" onClick={resetAllToReading}>
-                    Start over
+                    {t.finish.startOver}
                   </Button>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-
-        <footer className="text-xs text-muted-foreground pt-2 pb-6">
-          Built for practice. Tip: clear, correct sentences beat long, complicated ones.
-        </footer>
+                  {attemptRecord ? <AttemptExportButtons record={attemptRecord} entry={selectedEntry} /> : null}
+                </>
+              }
+            />
+          )}
+        </main>
+
+        <footer className="text-xs text-muted-foreground pt-2 pb-6">{t.app.footer}</footer>
       </div>
     </div>
   );
@@ -0,0 +1,8 @@
+import { OFFLINE_PAGES, offlineFiles } from "@/lib/offline";
+
+// Built once with the app, so the list always matches the deploy.
+export const dynamic = "force-static";
+
+export function GET() {
+  return Response.json({ pages: OFFLINE_PAGES, files: offlineFiles() });
+}
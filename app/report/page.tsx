@@ -0,0 +1,15 @@
+import { Suspense } from "react";
+import type { Metadata } from "next";
+import { ReportView } from "@/components/report/report-view";
+
+export const metadata: Metadata = {
+  title: "Report",
+};
+
+export default function ReportPage() {
+  return (
+    <Suspense>
+      <ReportView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { ReviewView } from "@/components/review/review-view";
+
+export const metadata: Metadata = {
+  title: "Word review",
+};
+
+export default function ReviewPage() {
+  return <ReviewView />;
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { SharedView } from "@/components/shared/shared-view";
+
+export const metadata: Metadata = {
+  title: "Shared attempt",
+};
+
+export default function SharedPage() {
+  return <SharedView />;
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { TeacherView } from "@/components/teacher/teacher-view";
+
+export const metadata: Metadata = {
+  title: "Class overview",
+};
+
+export default function TeacherPage() {
+  return <TeacherView />;
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { Section, Test } from "@/lib/tests/types";
+import { buildQuestionBank, type BankItem } from "@/lib/tests/bank";
+import { skillName, usesPassage } from "@/lib/tests/skills";
+import {
+  ADAPTIVE_LENGTH,
+  adaptivePool,
+  estimateLevel,
+  nextAdaptiveItem,
+  recordAdaptiveStep,
+  startAdaptive,
+  stepsByLevel,
+  type AdaptiveItem,
+  type AdaptiveState,
+} from "@/lib/adaptive";
+import { isAnswered, type Answers } from "@/lib/scoring";
+import { newShuffleSeed } from "@/lib/shuffle";
+import type { ListeningPlays } from "@/lib/listening";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+import { TestSection } from "@/components/practice/test-section";
+import { AnswerReview } from "@/components/practice/answer-review";
+import { GlossedText } from "@/components/practice/glossed-text";
+
+/** -----------------------------
+ *  Adaptive Session
+ *  ----------------------------- */
+// Each question is shown as a one-item section, so it looks and grades exactly like in a test.
+function questionSection(b: BankItem): Section {
+  return { id: "adaptive", name: b.item.skills?.length ? skillName(b.item.skills[0]) : "", items: [b.item] };
+}
+
+function AdaptiveQuestion({
+  question,
+  source,
+  number,
+  checked,
+  hasNext,
+  onCheck,
+  onNext,
+}: {
+  question: AdaptiveItem;
+  source: Test;
+  number: number;
+  checked: boolean;
+  hasNext: boolean;
+  onCheck: (answers: Answers) => void;
+  onNext: () => void;
+}) {
+  const { t } = useLocale();
+  const [answers, setAnswers] = useState<Answers>({});
+  const [plays, setPlays] = useState<ListeningPlays>({});
+  const section = questionSection(question);
+  const answered = isAnswered(question.item, answers);
+
+  return (
+    <div className="space-y-4">
+      {usesPassage(question.item) ? (
+        <Card className="rounded-3xl shadow-sm">
+          <CardContent>
+            <details>
+              <summary className="cursor-pointer text-sm font-medium">{t.adaptive.readText}</summary>
+              <div className="mt-3 space-y-2">
+                <div lang="en" className="font-medium">
+                  {source.readingTitle}
+                </div>
+                <GlossedText text={source.readingText} glossary={source.glossary} />
+              </div>
+            </details>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {checked ? (
+        <>
+          <AnswerReview test={{ ...source, sections: [section] }} answers={answers} />
+          <Button className="rounded-2xl" onClick={onNext}>
+            {hasNext ? t.adaptive.next : t.adaptive.seeLevel}
+          </Button>
+        </>
+      ) : (
+        <TestSection
+          section={section}
+          answers={answers}
+          onAnswer={(id, value) => setAnswers((a) => ({ ...a, [id]: value }))}
+          writingScores={{}}
+          onWritingScore={() => {}}
+          plays={plays}
+          onPlay={(id) => setPlays((p) => ({ ...p, [id]: (p[id] ?? 0) + 1 }))}
+          firstNumber={number}
+          footer={
+            <div className="flex flex-wrap items-center gap-3">
+              <Button className="rounded-2xl" disabled={!answered} onClick={() => onCheck(answers)}>
+                {t.adaptive.check}
+              </Button>
+              {!answered ? <span className="text-sm text-muted-foreground">{t.adaptive.answerToCheck}</span> : null}
+            </div>
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+/** -----------------------------
+ *  Adaptive Practice
+ *  ----------------------------- */
+export function AdaptiveView() {
+  const { t } = useLocale();
+  const catalogue = useTestCatalogue();
+  const bank = useMemo(() => buildQuestionBank(catalogue), [catalogue]);
+  const pool = useMemo(() => adaptivePool(bank), [bank]);
+  const [session, setSession] = useState<AdaptiveState | null>(null);
+  const [question, setQuestion] = useState<AdaptiveItem | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  function start() {
+    const s = startAdaptive(newShuffleSeed());
+    setSession(s);
+    setQuestion(nextAdaptiveItem(pool, s));
+    setChecked(false);
+  }
+
+  function check(answers: Answers) {
+    if (!session || !question) return;
+    setSession(recordAdaptiveStep(session, question, answers));
+    setChecked(true);
+  }
+
+  function next() {
+    if (!session) return;
+    setQuestion(nextAdaptiveItem(pool, session));
+    setChecked(false);
+  }
+
+  // The test a question came from; gone only if it was deleted in another tab mid-session.
+  const source = question ? bank.sources.get(question.sourceKey) : undefined;
+  const done = session !== null && question === null;
+  const estimate = done ? estimateLevel(session.steps, pool) : null;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.adaptive.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.adaptive.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        {pool.length === 0 ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm text-muted-foreground">{t.adaptive.empty}</CardContent>
+          </Card>
+        ) : session && question && source ? (
+          <>
+            <Card className="rounded-3xl shadow-sm">
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    {t.adaptive.questionOf(session.steps.length + (checked ? 0 : 1), ADAPTIVE_LENGTH)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="rounded-full">
+                      {t.adaptive.level(question.item.level)}
+                    </Badge>
+                    <Button variant="ghost" size="sm" className="rounded-2xl" onClick={() => setSession(null)}>
+                      {t.adaptive.stop}
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={(session.steps.length / ADAPTIVE_LENGTH) * 100} />
+              </CardContent>
+            </Card>
+            <AdaptiveQuestion
+              key={session.steps.length - (checked ? 1 : 0)}
+              question={question}
+              source={source}
+              number={session.steps.length + (checked ? 0 : 1)}
+              checked={checked}
+              hasNext={nextAdaptiveItem(pool, session) !== null}
+              onCheck={check}
+              onNext={next}
+            />
+          </>
+        ) : done && estimate ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">{t.adaptive.resultTitle}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-4xl font-semibold" role="status">
+                {t.adaptive.estimate(estimate.level, estimate.bound)}
+              </div>
+              <div className="text-sm text-muted-foreground space-y-1">
+                <div>{t.adaptive.basedOn(session.steps.length)}</div>
+                {estimate.bound ? <div>{t.adaptive.boundNote(estimate.bound)}</div> : null}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {stepsByLevel(session.steps).map((l) => (
+                  <Badge key={l.level} variant="secondary" className="rounded-full">
+                    {t.adaptive.byLevel(l.level, l.right, l.tried)}
+                  </Badge>
+                ))}
+              </div>
+              <Button className="rounded-2xl" onClick={start}>
+                {t.adaptive.again}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent>
+              <Button className="rounded-2xl" onClick={start}>
+                {t.adaptive.start}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TestEditor } from "@/components/author/test-editor";
+import { TestSection } from "@/components/practice/test-section";
+import { GlossedText } from "@/components/practice/glossed-text";
+import type { Test } from "@/lib/tests/types";
+import { findTestIssues } from "@/lib/tests/validate";
+import type { WritingScores } from "@/lib/writing-rubric";
+import type { ListeningPlays } from "@/lib/listening";
+import {
+  blankTest,
+  deleteAuthoredTest,
+  newAuthoredKey,
+  saveAuthoredTest,
+  tidyTest,
+} from "@/lib/tests/authored";
+import { downloadFile, slugify } from "@/lib/download";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+
+/** -----------------------------
+ *  Test Editor Page
+ *  ----------------------------- */
+type Draft = {
+  key: string | null; // the stored authored test being edited, null until first saved
+  test: Test;
+};
+
+const BLANK = "__blank";
+
+function Preview({ test }: { test: Test }) {
+  const { t } = useLocale();
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [writingScores, setWritingScores] = useState<WritingScores>({});
+  const [plays, setPlays] = useState<ListeningPlays>({});
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">{t.author.preview}</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="rounded-2xl"
+          onClick={() => {
+            setAnswers({});
+            setWritingScores({});
+            setPlays({});
+          }}
+        >
+          {t.author.clearPreview}
+        </Button>
+      </div>
+      <Card className="rounded-3xl shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">{test.readingTitle || t.author.readingTitlePlaceholder}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <GlossedText text={test.readingText || t.author.readingTextPlaceholder} glossary={test.glossary} />
+        </CardContent>
+      </Card>
+      {test.sections.map((s, i) => (
+        <TestSection
+          key={i}
+          section={s}
+          answers={answers}
+          onAnswer={(id, value) => setAnswers((a) => ({ ...a, [id]: value }))}
+          writingScores={writingScores}
+          onWritingScore={(id, score) => setWritingScores((w) => ({ ...w, [id]: score }))}
+          plays={plays}
+          onPlay={(id) => setPlays((p) => ({ ...p, [id]: (p[id] ?? 0) + 1 }))}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function AuthorView() {
+  const { t } = useLocale();
+  const catalogue = useTestCatalogue();
+  const [startFrom, setStartFrom] = useState(BLANK);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+
+  const tidy = useMemo(() => (draft ? tidyTest(draft.test) : null), [draft]);
+  const issues = useMemo(() => (tidy ? findTestIssues(tidy) : []), [tidy]);
+
+  function open() {
+    const entry = catalogue.find((e) => e.key === startFrom);
+    setStatus(null);
+    setImportIssues([]);
+    if (!entry) setDraft({ key: null, test: blankTest() });
+    // Authored tests are edited in place; built-in packs are copied, as a template.
+    else if (entry.authored) setDraft({ key: entry.key, test: entry.test });
+    else setDraft({ key: null, test: { ...entry.test, title: t.author.copyOf(entry.test.title) } });
+  }
+
+  function edit(test: Test) {
+    setDraft((d) => (d ? { ...d, test } : d));
+    setStatus(null);
+  }
+
+  function save() {
+    if (!draft || !tidy || issues.length) return;
+    const key = draft.key ?? newAuthoredKey();
+    saveAuthoredTest({ key, test: tidy, updatedAt: Date.now() });
+    setDraft({ key, test: tidy });
+    setStatus(t.author.saved);
+  }
+
+  function remove() {
+    if (!draft?.key) return;
+    if (!window.confirm(t.author.confirmDelete(draft.test.title))) return;
+    deleteAuthoredTest(draft.key);
+    setDraft(null);
+    setStatus(t.author.deleted);
+  }
+
+  function exportFile() {
+    if (!tidy) return;
+    downloadFile(`${slugify(tidy.title)}.json`, JSON.stringify(tidy, null, 2) + "\n", "application/json");
+  }
+
+  async function importFile(file: File) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setImportIssues([t.author.notJson(file.name)]);
+      return;
+    }
+    const found = findTestIssues(raw);
+    setImportIssues(found);
+    if (found.length) return;
+    setDraft({ key: null, test: raw as Test });
+    setStatus(t.author.imported(file.name));
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-7xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.author.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.author.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        <Card className="rounded-3xl shadow-sm">
+          <CardContent className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <label htmlFor="start-from" className="text-sm text-muted-foreground">
+                  {t.author.startFrom}
+                </label>
+                <select
+                  id="start-from"
+                  className="block rounded-xl border px-3 py-2 bg-background text-sm"
+                  value={startFrom}
+                  onChange={(e) => setStartFrom(e.target.value)}
+                >
+                  <option value={BLANK}>{t.author.blankTest}</option>
+                  <optgroup label={t.author.copyBuiltIn}>
+                    {catalogue
+                      .filter((e) => !e.authored)
+                      .map((e) => (
+                        <option key={e.key} value={e.key}>
+                          {e.label}
+                        </option>
+                      ))}
+                  </optgroup>
+                  {catalogue.some((e) => e.authored) ? (
+                    <optgroup label={t.author.editAuthored}>
+                      {catalogue
+                        .filter((e) => e.authored)
+                        .map((e) => (
+                          <option key={e.key} value={e.key}>
+                            {e.label}
+                          </option>
+                        ))}
+                    </optgroup>
+                  ) : null}
+                </select>
+              </div>
+              <Button className="rounded-2xl" onClick={open}>
+                {t.author.open}
+              </Button>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="import-file" className="text-sm text-muted-foreground">
+                {t.author.importLabel}
+              </label>
+              <input
+                id="import-file"
+                type="file"
+                accept="application/json,.json"
+                className="block text-sm"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ""; // so choosing the same file again fires onChange
+                  if (file) void importFile(file);
+                }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {importIssues.length ? (
+          <Card className="rounded-3xl shadow-sm border-destructive/50">
+            <CardContent className="space-y-2 text-sm" role="alert">
+              <div className="font-medium">{t.author.cantOpen}</div>
+              <ul className="list-disc pl-5 space-y-1">
+                {importIssues.map((issue, i) => (
+                  <li key={i}>{issue}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ) : null}
+
+        {status ? (
+          <div className="text-sm text-muted-foreground" role="status">
+            {status}
+          </div>
+        ) : null}
+
+        {draft && tidy ? (
+          <>
+            <Card className="rounded-3xl shadow-sm sticky top-2 z-10">
+              <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div className="text-sm">
+                  {issues.length ? (
+                    <span className="text-destructive">{t.author.toFix(issues.length)}</span>
+                  ) : (
+                    <span className="text-muted-foreground">{t.author.ready}</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button className="rounded-2xl" onClick={save} disabled={issues.length > 0}>
+                    {t.author.save}
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={exportFile}>
+                    {t.author.exportFile}
+                  </Button>
+                  {draft.key ? (
+                    <Button variant="ghost" className="rounded-2xl" onClick={remove}>
+                      {t.author.delete}
+                    </Button>
+                  ) : null}
+                </div>
+              </CardContent>
+            </Card>
+
+            {issues.length ? (
+              <Card className="rounded-3xl shadow-sm">
+                <CardContent>
+                  <ul className="list-disc pl-5 space-y-1 text-sm">
+                    {issues.map((issue, i) => (
+                      <li key={i}>{issue}</li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ) : null}
+
+            <div className="grid gap-6 lg:grid-cols-2 items-start">
+              <TestEditor test={draft.test} onChange={edit} />
+              <Preview test={draft.test} />
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useId, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Form Fields
+ *  ----------------------------- */
+export function TextField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  multiline = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (val: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+}) {
+  const id = useId();
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm text-muted-foreground">
+        {label}
+      </label>
+      {multiline ? (
+        <Textarea
+          id={id}
+          className="rounded-2xl min-h-[90px]"
+          value={value}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      ) : (
+        <Input
+          id={id}
+          className="rounded-xl"
+          value={value}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )}
+    </div>
+  );
+}
+
+export function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (val: number | undefined) => void; // undefined when cleared
+}) {
+  const id = useId();
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm text-muted-foreground">
+        {label}
+      </label>
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        className="rounded-xl w-28"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+      />
+    </div>
+  );
+}
+
+// One entry per line. Splitting and joining on "\n" round-trips exactly, so typing a new line works.
+export function LinesField({
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  label: string;
+  value: string[];
+  onChange: (val: string[]) => void;
+  placeholder?: string;
+}) {
+  const { t } = useLocale();
+  const id = useId();
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm text-muted-foreground">
+        {label} <span className="text-xs">{t.author.onePerLine}</span>
+      </label>
+      <Textarea
+        id={id}
+        className="rounded-2xl min-h-[70px]"
+        value={value.join("\n")}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value.split("\n"))}
+      />
+    </div>
+  );
+}
+
+function formatGlossary(glossary: Record<string, string> | undefined) {
+  return Object.entries(glossary ?? {})
+    .map(([word, gloss]) => `${word} = ${gloss}`)
+    .join("\n");
+}
+
+function parseGlossary(text: string): Record<string, string> | undefined {
+  const entries = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [word, ...rest] = line.split("=");
+      return [word.trim().toLowerCase(), rest.join("=").trim()] as const;
+    });
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+// "word = translation" per line. The text is kept as typed and only re-read from `value`
+// when the test changes underneath it (another test opened, or a file imported).
+export function GlossaryField({
+  value,
+  onChange,
+}: {
+  value: Record<string, string> | undefined;
+  onChange: (val: Record<string, string> | undefined) => void;
+}) {
+  const { t } = useLocale();
+  const id = useId();
+  const [text, setText] = useState(() => formatGlossary(value));
+  if (formatGlossary(parseGlossary(text)) !== formatGlossary(value)) setText(formatGlossary(value));
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="text-sm text-muted-foreground">
+        {t.author.glossary} <span className="text-xs">{t.author.glossaryHint}</span>
+      </label>
+      <Textarea
+        id={id}
+        className="rounded-2xl min-h-[70px]"
+        value={text}
+        placeholder="practice = trening"
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parseGlossary(e.target.value));
+        }}
+      />
+    </div>
+  );
+}
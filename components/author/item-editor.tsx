@@ -0,0 +1,546 @@
+'use client';
+
+import React, { useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import type {
+  ClozeGap,
+  ClozeItem,
+  Item,
+  ItemBase,
+  Level,
+  ListeningItem,
+  MCQItem,
+  OrderItem,
+  RubricCriterion,
+  WritingItem,
+} from "@/lib/tests/types";
+import { blankItem } from "@/lib/tests/authored";
+import { KNOWN_SKILLS, LEVELS } from "@/lib/tests/skills";
+import { DEFAULT_RUBRIC } from "@/lib/writing-rubric";
+import { LinesField, NumberField, TextField } from "@/components/author/fields";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Item Types
+ *  ----------------------------- */
+const ITEM_TYPES: Item["type"][] = ["mcq", "text", "order", "cloze", "listening", "short", "writing"];
+
+function words(sentence: string) {
+  return sentence.split(" ").filter((w, i, all) => w !== "" || i === all.length - 1);
+}
+
+function shuffled<T>(values: T[]) {
+  const out = [...values];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** -----------------------------
+ *  Per-type Fields
+ *  ----------------------------- */
+function MCQFields({ item, onChange }: { item: MCQItem; onChange: (it: Item) => void }) {
+  const { t } = useLocale();
+  const name = useId();
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm text-muted-foreground mb-1">{t.author.options}</legend>
+      {item.options.map((o, i) => (
+        <div key={o.id} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name={name}
+            aria-label={t.author.optionCorrect(o.id.toUpperCase())}
+            checked={item.answer === o.id}
+            onChange={() => onChange({ ...item, answer: o.id })}
+          />
+          <span className="w-5 text-sm font-medium">{o.id.toUpperCase()}</span>
+          <Input
+            className="rounded-xl"
+            aria-label={t.author.option(o.id.toUpperCase())}
+            value={o.label}
+            onChange={(e) => {
+              const options = item.options.map((x, j) => (j === i ? { ...x, label: e.target.value } : x));
+              onChange({ ...item, options });
+            }}
+          />
+        </div>
+      ))}
+    </fieldset>
+  );
+}
+
+function OrderFields({ item, onChange }: { item: OrderItem; onChange: (it: Item) => void }) {
+  const { t } = useLocale();
+  return (
+    <div className="space-y-3">
+      <TextField
+        label={t.author.orderSentence}
+        value={item.correctOrder.join(" ")}
+        placeholder="she has lived here since 2019"
+        onChange={(val) => onChange({ ...item, correctOrder: words(val) })}
+      />
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[200px]">
+          <TextField
+            label={t.author.orderTiles}
+            value={item.words.join(" ")}
+            onChange={(val) => onChange({ ...item, words: words(val) })}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          className="rounded-2xl"
+          onClick={() => onChange({ ...item, words: shuffled(item.correctOrder.filter(Boolean)) })}
+        >
+          {t.author.scramble}
+        </Button>
+      </div>
+      <div className="space-y-1">
+        <label className="text-sm text-muted-foreground" htmlFor={`${item.id}-end`}>
+          {t.author.endMark}
+        </label>
+        <select
+          id={`${item.id}-end`}
+          className="block rounded-xl border px-3 py-2 bg-background text-sm"
+          value={item.endMark ?? "."}
+          onChange={(e) => onChange({ ...item, endMark: e.target.value as OrderItem["endMark"] })}
+        >
+          <option value=".">.</option>
+          <option value="?">?</option>
+          <option value="!">!</option>
+        </select>
+      </div>
+    </div>
+  );
+}
+
+function GapFields({
+  gap,
+  index,
+  onChange,
+  onRemove,
+}: {
+  gap: ClozeGap;
+  index: number;
+  onChange: (g: ClozeGap) => void;
+  onRemove: () => void;
+}) {
+  const { t } = useLocale();
+  return (
+    <div className="p-3 rounded-2xl border space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-medium">
+          {t.author.gap(index + 1)} <code className="text-xs text-muted-foreground">{`{{${gap.id}}}`}</code>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label={t.author.gapKind(index + 1)}
+            className="rounded-xl border px-2 py-1 bg-background text-sm"
+            value={gap.kind}
+            onChange={(e) =>
+              onChange(
+                e.target.value === "select"
+                  ? { id: gap.id, kind: "select", options: [""], answer: "" }
+                  : { id: gap.id, kind: "text", acceptedAnswers: [""] },
+              )
+            }
+          >
+            <option value="text">{t.author.gapText}</option>
+            <option value="select">{t.author.gapSelect}</option>
+          </select>
+          <Button type="button" variant="ghost" size="sm" className="rounded-2xl" onClick={onRemove}>
+            {t.author.removeGap}
+          </Button>
+        </div>
+      </div>
+      {gap.kind === "select" ? (
+        <>
+          <LinesField label={t.author.choices} value={gap.options} onChange={(options) => onChange({ ...gap, options })} />
+          <div className="space-y-1">
+            <label className="text-sm text-muted-foreground" htmlFor={`${gap.id}-answer`}>
+              {t.author.correctChoice}
+            </label>
+            <select
+              id={`${gap.id}-answer`}
+              className="block rounded-xl border px-3 py-2 bg-background text-sm"
+              value={gap.answer}
+              onChange={(e) => onChange({ ...gap, answer: e.target.value })}
+            >
+              <option value="">{t.author.choose}</option>
+              {gap.options.filter((o) => o.trim()).map((o) => (
+                <option key={o} value={o}>
+                  {o}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      ) : (
+        <LinesField
+          label={t.author.acceptedAnswers}
+          value={gap.acceptedAnswers}
+          onChange={(acceptedAnswers) => onChange({ ...gap, acceptedAnswers })}
+        />
+      )}
+    </div>
+  );
+}
+
+function ClozeFields({ item, onChange }: { item: ClozeItem; onChange: (it: Item) => void }) {
+  const { t } = useLocale();
+
+  function addGap() {
+    let n = item.gaps.length + 1;
+    while (item.gaps.some((g) => g.id === `g${n}`)) n++;
+    const id = `g${n}`;
+    onChange({
+      ...item,
+      passage: `${item.passage} {{${id}}}`,
+      gaps: [...item.gaps, { id, kind: "text", acceptedAnswers: [""] }],
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <TextField
+        label={t.author.passage}
+        multiline
+        value={item.passage}
+        onChange={(passage) => onChange({ ...item, passage })}
+      />
+      {item.gaps.map((g, i) => (
+        <GapFields
+          key={g.id}
+          gap={g}
+          index={i}
+          onChange={(next) => onChange({ ...item, gaps: item.gaps.map((x, j) => (j === i ? next : x)) })}
+          onRemove={() =>
+            onChange({
+              ...item,
+              passage: item.passage.split(`{{${g.id}}}`).join(""),
+              gaps: item.gaps.filter((_, j) => j !== i),
+            })
+          }
+        />
+      ))}
+      <Button type="button" variant="secondary" className="rounded-2xl" onClick={addGap}>
+        {t.author.addGap}
+      </Button>
+    </div>
+  );
+}
+
+function ListeningFields({ item, onChange }: { item: ListeningItem; onChange: (it: Item) => void }) {
+  const { t } = useLocale();
+
+  function setLine(i: number, patch: Partial<ListeningItem["dialogue"][number]>) {
+    onChange({ ...item, dialogue: item.dialogue.map((l, j) => (j === i ? { ...l, ...patch } : l)) });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="text-sm text-muted-foreground">{t.author.dialogue}</div>
+        {item.dialogue.map((line, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <Input
+              className="rounded-xl w-32"
+              aria-label={t.author.lineSpeaker(i + 1)}
+              placeholder={t.author.speaker}
+              value={line.speaker}
+              onChange={(e) => setLine(i, { speaker: e.target.value })}
+            />
+            <Input
+              className="rounded-xl flex-1 min-w-[200px]"
+              aria-label={t.author.lineText(i + 1)}
+              placeholder={t.author.whatTheySay}
+              value={line.text}
+              onChange={(e) => setLine(i, { text: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="rounded-2xl"
+              disabled={item.dialogue.length <= 1}
+              onClick={() => onChange({ ...item, dialogue: item.dialogue.filter((_, j) => j !== i) })}
+            >
+              {t.author.remove}
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="secondary"
+          className="rounded-2xl"
+          onClick={() => onChange({ ...item, dialogue: [...item.dialogue, { speaker: "", text: "" }] })}
+        >
+          {t.author.addLine}
+        </Button>
+      </div>
+      <NumberField label={t.author.maxPlays} value={item.maxPlays} onChange={(maxPlays) => onChange({ ...item, maxPlays })} />
+      <TextField
+        label={t.author.recording}
+        value={item.audioSrc ?? ""}
+        placeholder="/audio/dialogue.mp3"
+        onChange={(val) => onChange({ ...item, audioSrc: val || undefined })}
+      />
+      <LinesField
+        label={t.author.keywords}
+        value={item.keywords ?? []}
+        onChange={(keywords) => onChange({ ...item, keywords })}
+      />
+    </div>
+  );
+}
+
+function WritingFields({ item, onChange }: { item: WritingItem; onChange: (it: Item) => void }) {
+  const { t, locale } = useLocale();
+  const rubric = item.rubric;
+
+  function setCriterion(i: number, patch: Partial<RubricCriterion>) {
+    onChange({ ...item, rubric: rubric?.map((c, j) => (j === i ? { ...c, ...patch } : c)) });
+  }
+
+  function addCriterion() {
+    const used = new Set((rubric ?? []).map((c) => c.id));
+    let n = 1;
+    while (used.has(`c${n}`)) n++;
+    onChange({ ...item, rubric: [...(rubric ?? []), { id: `c${n}`, label: "", max: 2 }] });
+  }
+
+  if (!rubric) {
+    return (
+      <div className="space-y-2">
+        <div className="text-sm text-muted-foreground">
+          {t.author.defaultRubric(
+            DEFAULT_RUBRIC.map((c) => `${locale === "nb" ? (c.labelNb ?? c.label) : c.label} (0–${c.max})`).join(", ")
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          className="rounded-2xl"
+          onClick={() => onChange({ ...item, rubric: DEFAULT_RUBRIC.map((c) => ({ ...c })) })}
+        >
+          {t.author.customiseRubric}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm text-muted-foreground">{t.author.rubric}</div>
+      {rubric.map((c, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <Input
+            className="rounded-xl flex-1 min-w-[160px]"
+            aria-label={t.author.criterion(i + 1)}
+            placeholder={t.author.criterionPlaceholder}
+            value={c.label}
+            onChange={(e) => setCriterion(i, { label: e.target.value })}
+          />
+          <Input
+            className="rounded-xl flex-1 min-w-[160px]"
+            aria-label={t.author.criterionNb(i + 1)}
+            placeholder={t.author.criterionNbPlaceholder}
+            value={c.labelNb ?? ""}
+            onChange={(e) => setCriterion(i, { labelNb: e.target.value || undefined })}
+          />
+          <Input
+            type="number"
+            min={1}
+            max={10}
+            className="rounded-xl w-20"
+            aria-label={t.author.criterionMax(i + 1)}
+            value={c.max}
+            onChange={(e) => setCriterion(i, { max: Number(e.target.value) })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="rounded-2xl"
+            disabled={rubric.length <= 1}
+            onClick={() => onChange({ ...item, rubric: rubric.filter((_, j) => j !== i) })}
+          >
+            {t.author.remove}
+          </Button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="secondary" className="rounded-2xl" onClick={addCriterion}>
+          {t.author.addCriterion}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          className="rounded-2xl"
+          onClick={() => onChange({ ...item, rubric: undefined })}
+        >
+          {t.author.useDefaultRubric}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** -----------------------------
+ *  Item Editor
+ *  ----------------------------- */
+export function ItemEditor({
+  item,
+  index,
+  count,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  item: Item;
+  index: number;
+  count: number;
+  onChange: (it: Item) => void;
+  onMove: (delta: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const { t } = useLocale();
+  const typeId = useId();
+  const levelId = useId();
+
+  // Switching type starts from a blank item of the new type but keeps the shared fields.
+  function changeType(type: Item["type"]) {
+    const { id, prompt, guidance, guidanceNb, explanation, vocabWord, skills, level } = item;
+    const shared: Omit<ItemBase, "id"> = { prompt, guidance, guidanceNb, explanation, vocabWord, skills, level };
+    onChange({ ...blankItem(type, id), ...shared });
+  }
+
+  return (
+    <div className="p-4 rounded-2xl border space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="rounded-full">
+            {index + 1}
+          </Badge>
+          <span className="text-sm text-muted-foreground">{t.author.itemTypes[item.type]}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="ghost" size="sm" className="rounded-2xl" disabled={index === 0} onClick={() => onMove(-1)}>
+            {t.author.up}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="rounded-2xl"
+            disabled={index === count - 1}
+            onClick={() => onMove(1)}
+          >
+            {t.author.down}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="rounded-2xl" onClick={onRemove}>
+            {t.author.remove}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+        <TextField label={t.author.id} value={item.id} onChange={(id) => onChange({ ...item, id })} />
+        <div className="space-y-1">
+          <label htmlFor={typeId} className="text-sm text-muted-foreground">
+            {t.author.type}
+          </label>
+          <select
+            id={typeId}
+            className="block rounded-xl border px-3 py-2 bg-background text-sm"
+            value={item.type}
+            onChange={(e) => changeType(e.target.value as Item["type"])}
+          >
+            {ITEM_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t.author.itemTypes[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <TextField label={t.author.prompt} multiline value={item.prompt} onChange={(prompt) => onChange({ ...item, prompt })} />
+      <TextField
+        label={t.author.guidance}
+        value={item.guidance ?? ""}
+        onChange={(val) => onChange({ ...item, guidance: val || undefined })}
+      />
+      <TextField
+        label={t.author.guidanceNb}
+        value={item.guidanceNb ?? ""}
+        onChange={(val) => onChange({ ...item, guidanceNb: val || undefined })}
+      />
+
+      {item.type === "mcq" ? <MCQFields item={item} onChange={onChange} /> : null}
+      {item.type === "text" ? (
+        <LinesField
+          label={t.author.acceptedAnswers}
+          value={item.acceptedAnswers}
+          onChange={(acceptedAnswers) => onChange({ ...item, acceptedAnswers })}
+        />
+      ) : null}
+      {item.type === "order" ? <OrderFields item={item} onChange={onChange} /> : null}
+      {item.type === "cloze" ? <ClozeFields item={item} onChange={onChange} /> : null}
+      {item.type === "listening" ? <ListeningFields item={item} onChange={onChange} /> : null}
+      {item.type === "writing" ? <WritingFields item={item} onChange={onChange} /> : null}
+      {item.type === "short" ? (
+        <LinesField
+          label={t.author.keywords}
+          value={item.keywords ?? []}
+          onChange={(keywords) => onChange({ ...item, keywords })}
+        />
+      ) : null}
+
+      {item.type !== "writing" && item.type !== "short" && item.type !== "listening" ? (
+        <TextField
+          label={t.author.explanation}
+          value={item.explanation ?? ""}
+          onChange={(val) => onChange({ ...item, explanation: val || undefined })}
+        />
+      ) : null}
+      {item.type === "mcq" || item.type === "text" ? (
+        <TextField
+          label={t.author.vocabWord}
+          value={item.vocabWord ?? ""}
+          onChange={(val) => onChange({ ...item, vocabWord: val || undefined })}
+        />
+      ) : null}
+      <LinesField
+        label={t.author.skills}
+        value={item.skills ?? []}
+        placeholder={KNOWN_SKILLS.join("\n")}
+        onChange={(skills) => onChange({ ...item, skills: skills.length ? skills : undefined })}
+      />
+      <div className="space-y-1">
+        <label htmlFor={levelId} className="text-sm text-muted-foreground">
+          {t.author.level}
+        </label>
+        <select
+          id={levelId}
+          className="block rounded-xl border px-3 py-2 bg-background text-sm"
+          value={item.level ?? ""}
+          onChange={(e) => onChange({ ...item, level: (e.target.value || undefined) as Level | undefined })}
+        >
+          <option value="">{t.author.noLevel}</option>
+          {LEVELS.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
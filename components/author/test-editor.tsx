@@ -0,0 +1,189 @@
+'use client';
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { Item, Section, Test } from "@/lib/tests/types";
+import { blankItem, nextFreeId } from "@/lib/tests/authored";
+import { ItemEditor } from "@/components/author/item-editor";
+import { GlossaryField, NumberField, TextField } from "@/components/author/fields";
+import { useLocale } from "@/hooks/use-locale";
+
+const ADDABLE_TYPES: Item["type"][] = ["mcq", "text", "order", "cloze", "listening", "short", "writing"];
+
+function moved<T>(values: T[], from: number, to: number) {
+  if (to < 0 || to >= values.length) return values;
+  const next = [...values];
+  const [v] = next.splice(from, 1);
+  next.splice(to, 0, v);
+  return next;
+}
+
+/** -----------------------------
+ *  Section Editor
+ *  ----------------------------- */
+function SectionEditor({
+  test,
+  section,
+  index,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  test: Test;
+  section: Section;
+  index: number;
+  onChange: (s: Section) => void;
+  onMove: (delta: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const { t } = useLocale();
+
+  function setItems(items: Item[]) {
+    onChange({ ...section, items });
+  }
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg">{section.name || t.author.section(index + 1)}</CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="rounded-2xl"
+              disabled={index === 0}
+              onClick={() => onMove(-1)}
+            >
+              {t.author.up}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="rounded-2xl"
+              disabled={index === test.sections.length - 1}
+              onClick={() => onMove(1)}
+            >
+              {t.author.down}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="rounded-2xl"
+              disabled={test.sections.length <= 1}
+              onClick={onRemove}
+            >
+              {t.author.removeSection}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto]">
+          <TextField label={t.author.sectionName} value={section.name} onChange={(name) => onChange({ ...section, name })} />
+          <TextField label={t.author.id} value={section.id} onChange={(id) => onChange({ ...section, id })} />
+          <NumberField
+            label={t.author.sectionMinutes}
+            value={section.timeLimitMinutes}
+            onChange={(timeLimitMinutes) => onChange({ ...section, timeLimitMinutes })}
+          />
+        </div>
+
+        {/* Keyed by position: the id is editable, and keying on it would remount the item on every keystroke. */}
+        {section.items.map((it, i) => (
+          <ItemEditor
+            key={i}
+            item={it}
+            index={i}
+            count={section.items.length}
+            onChange={(next) => setItems(section.items.map((x, j) => (j === i ? next : x)))}
+            onMove={(delta) => setItems(moved(section.items, i, i + delta))}
+            onRemove={() => setItems(section.items.filter((_, j) => j !== i))}
+          />
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">{t.author.add}</span>
+          {ADDABLE_TYPES.map((type) => (
+            <Button
+              key={type}
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="rounded-2xl"
+              onClick={() => setItems([...section.items, blankItem(type, nextFreeId(test, "q"))])}
+            >
+              {t.author.itemTypes[type]}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** -----------------------------
+ *  Test Editor
+ *  ----------------------------- */
+export function TestEditor({ test, onChange }: { test: Test; onChange: (t: Test) => void }) {
+  const { t } = useLocale();
+
+  function setSections(sections: Section[]) {
+    onChange({ ...test, sections });
+  }
+
+  function addSection() {
+    const id = nextFreeId(test, "section-");
+    setSections([...test.sections, { id, name: t.author.newSectionName(test.sections.length + 1), items: [] }]);
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-3xl shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">{t.author.detailsTitle}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <TextField label={t.author.testTitle} value={test.title} onChange={(title) => onChange({ ...test, title })} />
+          <NumberField
+            label={t.author.testMinutes}
+            value={test.timeLimitMinutes}
+            onChange={(timeLimitMinutes) => onChange({ ...test, timeLimitMinutes })}
+          />
+          <TextField
+            label={t.author.readingTitle}
+            value={test.readingTitle}
+            onChange={(readingTitle) => onChange({ ...test, readingTitle })}
+          />
+          <TextField
+            label={t.author.readingText}
+            multiline
+            value={test.readingText}
+            onChange={(readingText) => onChange({ ...test, readingText })}
+          />
+          <GlossaryField value={test.glossary} onChange={(glossary) => onChange({ ...test, glossary })} />
+        </CardContent>
+      </Card>
+
+      {test.sections.map((s, i) => (
+        <SectionEditor
+          key={i}
+          test={test}
+          section={s}
+          index={i}
+          onChange={(next) => setSections(test.sections.map((x, j) => (j === i ? next : x)))}
+          onMove={(delta) => setSections(moved(test.sections, i, i + delta))}
+          onRemove={() => setSections(test.sections.filter((_, j) => j !== i))}
+        />
+      ))}
+
+      <Button type="button" variant="secondary" className="rounded-2xl" onClick={addSection}>
+        {t.author.addSection}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  PRACTICE_LENGTHS,
+  assemblePractice,
+  bankSkills,
+  buildQuestionBank,
+  matchingItems,
+} from "@/lib/tests/bank";
+import { usesPassage } from "@/lib/tests/skills";
+import { newAuthoredKey, saveAuthoredTest } from "@/lib/tests/authored";
+import { LAST_TEST_STORAGE_KEY } from "@/lib/saved-attempts";
+import { newShuffleSeed } from "@/lib/shuffle";
+import { writeJSON } from "@/lib/storage";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+
+/** -----------------------------
+ *  Practice Builder
+ *  ----------------------------- */
+// Assembles a test from the question bank and saves it like an authored test, so it shows up in
+// the test picker, keeps its own saved attempt and history, and can be deleted in the editor.
+export function BuilderView() {
+  const { t } = useLocale();
+  const router = useRouter();
+  const catalogue = useTestCatalogue();
+  const bank = useMemo(() => buildQuestionBank(catalogue), [catalogue]);
+  const skills = bankSkills(bank);
+  const [chosen, setChosen] = useState<string[]>([]);
+  const [length, setLength] = useState(PRACTICE_LENGTHS[1]);
+
+  // How many items match doesn't depend on the seed: a tie between passages has equal counts.
+  const matches = matchingItems(bank, chosen, 0).items;
+
+  function toggle(skill: string) {
+    setChosen((c) => (c.includes(skill) ? c.filter((s) => s !== skill) : [...c, skill]));
+  }
+
+  function build() {
+    const test = assemblePractice(bank, { skills: chosen, length, seed: newShuffleSeed() });
+    if (!test) return;
+    const key = newAuthoredKey();
+    saveAuthoredTest({ key, test, updatedAt: Date.now(), assembled: true });
+    writeJSON(LAST_TEST_STORAGE_KEY, key);
+    router.push("/");
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.builder.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.builder.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        {skills.length === 0 ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm text-muted-foreground">{t.builder.noTaggedItems}</CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="rounded-3xl shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">{t.builder.skillsTitle}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div role="group" aria-label={t.builder.skillsTitle} className="flex flex-wrap gap-2">
+                  {skills.map(({ skill, count }) => (
+                    <Button
+                      key={skill}
+                      variant={chosen.includes(skill) ? "default" : "secondary"}
+                      className="rounded-2xl"
+                      aria-pressed={chosen.includes(skill)}
+                      onClick={() => toggle(skill)}
+                    >
+                      {t.skills[skill] ?? skill}
+                      <Badge variant="outline" className="rounded-full ml-1">
+                        {count}
+                      </Badge>
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-3xl shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">{t.builder.lengthTitle}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div role="group" aria-label={t.builder.lengthTitle} className="flex flex-wrap gap-2">
+                  {PRACTICE_LENGTHS.map((n) => (
+                    <Button
+                      key={n}
+                      variant={length === n ? "default" : "secondary"}
+                      className="rounded-2xl"
+                      aria-pressed={length === n}
+                      onClick={() => setLength(n)}
+                    >
+                      {t.builder.questions(n)}
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="text-sm text-muted-foreground space-y-1" role="status">
+                  {chosen.length ? (
+                    <>
+                      <div>{t.builder.available(matches.length)}</div>
+                      {matches.some((b) => usesPassage(b.item)) ? <div>{t.builder.readingNote}</div> : null}
+                    </>
+                  ) : (
+                    <div>{t.builder.chooseSkill}</div>
+                  )}
+                </div>
+
+                <Button className="rounded-2xl" disabled={matches.length === 0} onClick={build}>
+                  {t.builder.build}
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
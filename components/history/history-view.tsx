@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ResultsView } from "@/components/practice/results-view";
+import { ScoreTrendChart } from "@/components/history/score-trend-chart";
+import { formatPoints, percent, scoreTest } from "@/lib/scoring";
+import { HISTORY_STORAGE_KEY, deleteAttempt, importAttempt, updateAttempt, type AttemptRecord } from "@/lib/history";
+import { readAttemptFile, type AttemptFileProblem } from "@/lib/attempt-file";
+import { newAuthoredKey, saveAuthoredTest } from "@/lib/tests/authored";
+import type { WritingScore } from "@/lib/writing-rubric";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import type { TestEntry } from "@/lib/tests/registry";
+import { useLocale } from "@/hooks/use-locale";
+import { useStudentName } from "@/hooks/use-profile";
+import { shuffleTest } from "@/lib/shuffle";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+import { AttemptExportButtons } from "@/components/practice/attempt-export";
+
+/** -----------------------------
+ *  History
+ *  ----------------------------- */
+function formatDate(ms: number, dateLocale: string) {
+  return new Date(ms).toLocaleString(dateLocale);
+}
+
+function AttemptReview({
+  attempt,
+  entry,
+  onBack,
+}: {
+  attempt: AttemptRecord;
+  entry: TestEntry | undefined;
+  onBack: () => void;
+}) {
+  const { t, dateLocale } = useLocale();
+  const ownName = useStudentName();
+  const studentName = attempt.studentName ?? ownName;
+
+  // A teacher or parent can score the writing of a past attempt; the stored totals follow.
+  function reviewWritingScore(itemId: string, score: WritingScore) {
+    if (!entry) return;
+    const writingScores = { ...attempt.writingScores, [itemId]: score };
+    const summary = scoreTest(entry.test, attempt.answers, writingScores);
+    updateAttempt(attempt.id, {
+      writingScores,
+      score: summary.finalScore,
+      totalPoints: summary.totalPoints,
+      sections: summary.sections,
+    });
+  }
+
+  const back = (
+    <Button variant="secondary" className="rounded-2xl" onClick={onBack}>
+      {t.history.backToHistory}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-3xl shadow-sm">
+        <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <div lang="en" className="font-medium">
+              {attempt.testTitle}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {t.history.finishedReadOnly(formatDate(attempt.finishedAt, dateLocale))}
+            </div>
+          </div>
+          {back}
+        </CardContent>
+      </Card>
+
+      {entry ? (
+        <ResultsView
+          test={shuffleTest(entry.test, attempt.shuffleSeed)}
+          answers={attempt.answers}
+          writingScores={attempt.writingScores ?? {}}
+          onWritingScore={reviewWritingScore}
+          lookups={attempt.lookups}
+          timing={attempt.timing}
+          studentName={studentName}
+          actions={
+            <>
+              {back}
+              <AttemptExportButtons record={attempt} entry={entry} />
+            </>
+          }
+        />
+      ) : (
+        <Card className="rounded-3xl shadow-sm">
+          <CardContent className="text-sm text-muted-foreground">
+            {t.history.testGone}{" "}
+            {formatPoints(attempt.score)} / {attempt.totalPoints}.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export function HistoryView() {
+  const { t, dateLocale } = useLocale();
+  const stored = useStoredJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const catalogue = useTestCatalogue();
+  const [importStatus, setImportStatus] = useState<{ problem: AttemptFileProblem | "not-json" } | { title: string } | null>(
+    null
+  );
+
+  // An attempt from another device brings its test along. A test this device doesn't have is saved
+  // next to the authored tests, so the attempt can be opened like any other.
+  async function importFile(file: File) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setImportStatus({ problem: "not-json" });
+      return;
+    }
+    const read = readAttemptFile(raw);
+    if ("problem" in read) {
+      setImportStatus(read);
+      return;
+    }
+    const { attempt, test } = read.file;
+    let testKey = attempt.testKey;
+    if (!catalogue.some((e) => e.key === testKey)) {
+      if (!testKey.startsWith("custom-")) testKey = newAuthoredKey();
+      saveAuthoredTest({ key: testKey, test, updatedAt: Date.now() });
+    }
+    importAttempt({ ...attempt, testKey, studentName: read.file.studentName ?? attempt.studentName });
+    setImportStatus({ title: attempt.testTitle });
+  }
+
+  // One group per test, in order of each test's first attempt; attempts inside a group stay oldest first.
+  const groups = useMemo(() => {
+    const byTest = new Map<string, AttemptRecord[]>();
+    for (const a of stored ?? []) {
+      byTest.set(a.testKey, [...(byTest.get(a.testKey) ?? []), a]);
+    }
+    return [...byTest.entries()].map(([testKey, attempts]) => ({
+      testKey,
+      title: attempts[attempts.length - 1].testTitle,
+      attempts,
+    }));
+  }, [stored]);
+
+  const open = stored?.find((a) => a.id === openId);
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.history.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.history.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        {open ? null : (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="space-y-2">
+              <label htmlFor="import-attempt" className="text-sm text-muted-foreground">
+                {t.history.importLabel}
+              </label>
+              <input
+                id="import-attempt"
+                type="file"
+                accept="application/json,.json"
+                className="block text-sm"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ""; // so choosing the same file again fires onChange
+                  if (file) void importFile(file);
+                }}
+              />
+              {importStatus ? (
+                <div className="text-sm" role={"problem" in importStatus ? "alert" : "status"}>
+                  {"problem" in importStatus
+                    ? t.history.importProblems[importStatus.problem]
+                    : t.history.imported(importStatus.title)}
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+        )}
+
+        {open ? (
+          <AttemptReview
+            attempt={open}
+            entry={catalogue.find((e) => e.key === open.testKey)}
+            onBack={() => setOpenId(null)}
+          />
+        ) : groups.length === 0 ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm text-muted-foreground">{t.history.empty}</CardContent>
+          </Card>
+        ) : (
+          groups.map((g) => {
+            const percents = g.attempts.map((a) => percent(a.score, a.totalPoints));
+            return (
+              <Card key={g.testKey} className="rounded-3xl shadow-sm">
+                <CardHeader>
+                  <CardTitle lang="en" className="text-lg">
+                    {g.title}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary" className="rounded-full">
+                      {t.history.attempts(g.attempts.length)}
+                    </Badge>
+                    <Badge variant="secondary" className="rounded-full">
+                      {t.history.latest(percents[percents.length - 1])}
+                    </Badge>
+                    <Badge variant="secondary" className="rounded-full">
+                      {t.history.best(Math.max(...percents))}
+                    </Badge>
+                  </div>
+
+                  <ScoreTrendChart values={percents} label={t.history.trendLabel(g.title)} />
+
+                  <div className="space-y-2">
+                    {[...g.attempts].reverse().map((a) => (
+                      <div
+                        key={a.id}
+                        className="p-3 rounded-2xl border flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+                      >
+                        <div className="space-y-1">
+                          <div className="font-medium">
+                            {formatPoints(a.score)} / {a.totalPoints} ({percent(a.score, a.totalPoints)}%)
+                          </div>
+                          <div className="text-sm text-muted-foreground">{formatDate(a.finishedAt, dateLocale)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {a.sections
+                              .filter((s) => s.max > 0)
+                              .map((s) => `${s.name}: ${formatPoints(s.score)}/${s.max}`)
+                              .join(" • ")}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button className="rounded-2xl" onClick={() => setOpenId(a.id)}>
+                            {t.history.open}
+                          </Button>
+                          <Button variant="ghost" className="rounded-2xl" onClick={() => deleteAttempt(a.id)}>
+                            {t.history.delete}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
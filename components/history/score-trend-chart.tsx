@@ -0,0 +1,47 @@
+import React from "react";
+
+/** -----------------------------
+ *  Score Trend Chart
+ *  ----------------------------- */
+const W = 320;
+const H = 120;
+const PAD = 12;
+
+// A small dependency-free line chart of percentages (0–100), oldest attempt on the left.
+export function ScoreTrendChart({ values, label }: { values: number[]; label: string }) {
+  const step = values.length > 1 ? (W - PAD * 2) / (values.length - 1) : 0;
+  const points = values.map((v, i) => ({
+    x: values.length > 1 ? PAD + i * step : W / 2,
+    y: PAD + ((100 - Math.max(0, Math.min(100, v))) / 100) * (H - PAD * 2),
+  }));
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-32" role="img" aria-label={label}>
+      {[0, 50, 100].map((g) => {
+        const y = PAD + ((100 - g) / 100) * (H - PAD * 2);
+        return (
+          <g key={g}>
+            <line x1={PAD} x2={W - PAD} y1={y} y2={y} className="stroke-border" strokeDasharray="4 4" />
+            <text x={0} y={y + 3} className="fill-muted-foreground" fontSize={8}>
+              {g}
+            </text>
+          </g>
+        );
+      })}
+      {points.length > 1 ? (
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      ) : null}
+      {points.map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={3.5} className="fill-primary">
+          <title>{values[i]}%</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
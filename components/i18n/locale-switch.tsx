@@ -0,0 +1,38 @@
+'use client';
+
+import React, { useEffect } from "react";
+import { cn } from "@/lib/utils";
+import { LOCALES, localeInfo } from "@/lib/i18n";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Language Switch
+ *  ----------------------------- */
+export function LocaleSwitch({ className }: { className?: string }) {
+  const { locale, t, setLocale } = useLocale();
+
+  // Keep <html lang> in step with the UI language, for screen readers and hyphenation.
+  useEffect(() => {
+    document.documentElement.lang = localeInfo(locale).htmlLang;
+  }, [locale]);
+
+  return (
+    <div role="group" aria-label={t.locale.label} className={cn("inline-flex rounded-2xl border p-0.5", className)}>
+      {LOCALES.map((l) => (
+        <button
+          key={l.locale}
+          type="button"
+          lang={l.htmlLang}
+          aria-pressed={locale === l.locale}
+          className={cn(
+            "rounded-xl px-3 py-1 text-sm outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+            locale === l.locale ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+          )}
+          onClick={() => setLocale(l.locale)}
+        >
+          {l.label}
+        </button>
+      ))}
+    </div>
+  );
+}
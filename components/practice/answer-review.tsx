@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { Test } from "@/lib/tests/types";
+import type { GradeIssue } from "@/lib/grading";
+import { formatPoints, reviewAnswers, type Answers } from "@/lib/scoring";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Answer Review
+ *  ----------------------------- */
+export function AnswerReview({ test, answers }: { test: Test; answers: Answers }) {
+  const { t } = useLocale();
+  const groups = useMemo(() => reviewAnswers(test, answers), [test, answers]);
+  if (groups.length === 0) return null;
+
+  function message(issue: GradeIssue) {
+    switch (issue.kind) {
+      case "spelling":
+        return t.review.spelling(issue.typos.map((typo) => `${typo.given} → ${typo.expected}`).join(", "));
+      case "order":
+        return t.review.wordOrder;
+      case "almost-order":
+        return t.review.almostOrder;
+      case "missing":
+        return t.review.missing(issue.words.join(", "));
+      case "extra":
+        return t.review.notNeeded(issue.words.join(", "));
+    }
+  }
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">{t.review.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groups.map(({ section, items }) => (
+          <div key={section.id} className="space-y-3">
+            <div lang="en" className="font-medium">
+              {section.name}
+            </div>
+            {items.map(({ key, prompt, gap, item, given, expected, points, status, issues }) => (
+              <div key={key} className="p-3 rounded-2xl border space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="font-medium whitespace-pre-line">
+                    {gap ? `${t.items.gap(gap)}: ` : null}
+                    <span lang="en">{prompt}</span>
+                  </div>
+                  <Badge
+                    className="rounded-full"
+                    variant={status === "correct" ? "default" : status === "incorrect" ? "destructive" : "secondary"}
+                  >
+                    {t.review.status[status]}
+                    {status === "partial" ? ` (${formatPoints(points)})` : ""}
+                  </Badge>
+                </div>
+                <div className="text-sm">
+                  <span className="text-muted-foreground">{t.review.yourAnswer} </span>
+                  <span lang="en">{given || t.common.none}</span>
+                </div>
+                {issues.length > 0 && status !== "correct" && status !== "unanswered" ? (
+                  <div className="text-sm text-muted-foreground">{issues.map(message).join(" ")}</div>
+                ) : null}
+                {status !== "correct" ? (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">
+                      {expected.length > 1 ? t.review.acceptedAnswers : t.review.correctAnswer}{" "}
+                    </span>
+                    <span lang="en">{expected.join(" / ")}</span>
+                  </div>
+                ) : null}
+                {item.explanation ? (
+                  <div className="text-sm text-muted-foreground">
+                    {t.review.why} <span lang="en">{item.explanation}</span>
+                  </div>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { TestEntry } from "@/lib/tests/registry";
+import type { AttemptRecord } from "@/lib/history";
+import { attemptCSV, attemptFile, attemptFileName } from "@/lib/attempt-file";
+import { encodeShareFragment, sharedAttempt } from "@/lib/share-link";
+import { downloadFile } from "@/lib/download";
+import { useStudentName } from "@/hooks/use-profile";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Attempt Export
+ *  ----------------------------- */
+// Report, file downloads and a share link for a recorded attempt. `entry.test` is the test as
+// authored, not shuffled.
+export function AttemptExportButtons({ record, entry }: { record: AttemptRecord; entry: TestEntry }) {
+  const { t } = useLocale();
+  const ownName = useStudentName();
+  const studentName = record.studentName ?? ownName; // an imported attempt keeps its student's name
+  const [shareLink, setShareLink] = useState<{ url: string; copied: boolean } | null>(null);
+  const [shareUnsupported, setShareUnsupported] = useState(false);
+
+  function downloadJSON() {
+    const file = attemptFile(record, entry.test, studentName);
+    downloadFile(attemptFileName(record, "json"), JSON.stringify(file, null, 2) + "\n", "application/json");
+  }
+
+  function downloadCSV() {
+    downloadFile(attemptFileName(record, "csv"), attemptCSV(record, entry.test, studentName), "text/csv;charset=utf-8");
+  }
+
+  async function share() {
+    let fragment: string;
+    try {
+      fragment = await encodeShareFragment(sharedAttempt(record, entry, studentName));
+    } catch {
+      // Older browsers have no CompressionStream (or no "deflate-raw"); the file downloads still work.
+      setShareUnsupported(true);
+      return;
+    }
+    const url = `${window.location.origin}/shared#${fragment}`;
+    let copied = false;
+    try {
+      await navigator.clipboard.writeText(url);
+      copied = true;
+    } catch {
+      // No clipboard access (permissions, older browsers): the link is shown to copy by hand.
+    }
+    setShareLink({ url, copied });
+  }
+
+  return (
+    <>
+      <Button asChild variant="outline" className="rounded-2xl">
+        <Link href={`/report?attempt=${encodeURIComponent(record.id)}`}>{t.exports.report}</Link>
+      </Button>
+      <Button variant="outline" className="rounded-2xl" onClick={downloadJSON}>
+        {t.exports.json}
+      </Button>
+      <Button variant="outline" className="rounded-2xl" onClick={downloadCSV}>
+        {t.exports.csv}
+      </Button>
+      <Button variant="outline" className="rounded-2xl" onClick={() => void share()}>
+        {t.exports.share}
+      </Button>
+      {shareUnsupported ? (
+        <div className="w-full text-sm text-muted-foreground" role="status">
+          {t.exports.shareUnsupported}
+        </div>
+      ) : null}
+      {shareLink ? (
+        <div className="w-full space-y-1">
+          <div className="text-sm text-muted-foreground" role="status">
+            {shareLink.copied ? t.exports.linkCopied : t.exports.copyLink}
+          </div>
+          <Input
+            readOnly
+            className="rounded-xl"
+            aria-label={t.exports.share}
+            value={shareLink.url}
+            onFocus={(e) => e.target.select()}
+          />
+        </div>
+      ) : null}
+    </>
+  );
+}
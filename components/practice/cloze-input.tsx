@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useMemo } from "react";
+import type { ClozeItem } from "@/lib/tests/types";
+import { clozeAnswerKey, parseCloze } from "@/lib/cloze";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Cloze Passage
+ *  ----------------------------- */
+// Renders the passage with each gap inline: a dropdown or a small text box.
+export function ClozeInput({
+  item,
+  answers,
+  onChange,
+}: {
+  item: ClozeItem;
+  answers: Record<string, string>;
+  onChange: (key: string, val: string) => void;
+}) {
+  const { t } = useLocale();
+  const segments = useMemo(() => parseCloze(item.passage), [item.passage]);
+
+  return (
+    <div lang="en" className="p-3 rounded-2xl border leading-10 whitespace-pre-line">
+      {segments.map((seg, i) => {
+        if (seg.kind === "text") return <React.Fragment key={i}>{seg.text}</React.Fragment>;
+
+        const gapIdx = item.gaps.findIndex((g) => g.id === seg.gapId);
+        const gap = item.gaps[gapIdx];
+        if (!gap) return null;
+        const key = clozeAnswerKey(item, gap);
+        const label = t.items.gap(gapIdx + 1);
+
+        if (gap.kind === "select") {
+          return (
+            <select
+              key={key}
+              aria-label={label}
+              className="mx-1 rounded-xl border px-2 py-1 bg-background text-sm"
+              value={answers[key] || ""}
+              onChange={(e) => onChange(key, e.target.value)}
+            >
+              <option value="">{label}…</option>
+              {gap.options.map((opt) => (
+                <option key={opt} value={opt}>
+                  {opt}
+                </option>
+              ))}
+            </select>
+          );
+        }
+
+        return (
+          <input
+            key={key}
+            type="text"
+            aria-label={label}
+            placeholder={label}
+            autoCapitalize="off"
+            autoComplete="off"
+            spellCheck={false}
+            className="mx-1 w-32 rounded-xl border px-2 py-1 bg-background text-sm outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+            value={answers[key] || ""}
+            onChange={(e) => onChange(key, e.target.value)}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { defaultExamMinutes, formatClock, type ExamSettings } from "@/lib/exam";
+import type { Test } from "@/lib/tests/types";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Exam Settings
+ *  ----------------------------- */
+export function ExamSettingsCard({
+  test,
+  settings,
+  onChange,
+}: {
+  test: Test;
+  settings: ExamSettings;
+  onChange: (next: ExamSettings) => void;
+}) {
+  const { t } = useLocale();
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">{t.exam.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          />
+          <span>{t.exam.enable}</span>
+        </label>
+
+        {settings.enabled ? (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 pl-6">
+            <select
+              className="rounded-xl border p-2 bg-background"
+              aria-label={t.exam.limitType}
+              value={settings.mode}
+              onChange={(e) => {
+                const mode = e.target.value as ExamSettings["mode"];
+                onChange({ ...settings, mode, minutes: defaultExamMinutes(test, mode) });
+              }}
+            >
+              <option value="total">{t.exam.limitTotal}</option>
+              <option value="section">{t.exam.limitSection}</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={180}
+                className="w-20 rounded-xl"
+                value={settings.minutes}
+                onChange={(e) => onChange({ ...settings, minutes: Math.max(1, Number(e.target.value) || 1) })}
+              />
+              <span className="text-muted-foreground">
+                {settings.mode === "section" ? t.exam.minutesPerSection : t.exam.minutes}
+              </span>
+            </label>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** -----------------------------
+ *  Countdown
+ *  ----------------------------- */
+export function ExamCountdown({
+  remainingMs,
+  warnAtMs,
+  label,
+}: {
+  remainingMs: number | null; // null until the clock has started on the client
+  warnAtMs: number;
+  label: string;
+}) {
+  const { t } = useLocale();
+  const warning = remainingMs !== null && remainingMs <= warnAtMs;
+  const warnText = t.exam.lessThan(Math.round(warnAtMs / 60000));
+  return (
+    <div
+      className={cn(
+        "sticky top-2 z-10 flex items-center justify-between gap-3 rounded-2xl border px-4 py-2 shadow-sm bg-background",
+        warning && "border-destructive text-destructive"
+      )}
+    >
+      <span className="text-sm">{label}</span>
+      <span className="font-mono text-lg font-semibold" aria-hidden>
+        {remainingMs === null ? "–:––" : formatClock(remainingMs)}
+      </span>
+      {/* Announce the warning once, rather than every tick of the clock. */}
+      <span className="sr-only" role="status">
+        {warning ? `${warnText}. ${t.exam.autoSubmitWarning}` : ""}
+      </span>
+      {warning ? (
+        <span className="text-sm font-medium w-full md:w-auto" aria-hidden>
+          {warnText}!
+        </span>
+      ) : null}
+    </div>
+  );
+}
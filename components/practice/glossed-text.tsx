@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Test } from "@/lib/tests/types";
+import { lookupWord, splitWords } from "@/lib/glossary";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Tap-to-translate Passage
+ *  ----------------------------- */
+// Every word is a button; tapping one shows its Norwegian gloss in a small bubble under it.
+export function GlossedText({
+  text,
+  glossary,
+  onLookup,
+}: {
+  text: string;
+  glossary?: Test["glossary"];
+  onLookup?: (word: string) => void;
+}) {
+  const { t } = useLocale();
+  const segments = useMemo(() => splitWords(text), [text]);
+  const [openAt, setOpenAt] = useState<number | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const openWord = openAt === null ? null : segments[openAt].text;
+  const gloss = openWord === null ? null : lookupWord(openWord, glossary);
+
+  // Close the bubble when the student taps anywhere else.
+  useEffect(() => {
+    if (openAt === null) return;
+    function onPointerDown(e: PointerEvent) {
+      if (!rootRef.current?.contains(e.target as Node)) setOpenAt(null);
+    }
+    document.addEventListener("pointerdown", onPointerDown);
+    return () => document.removeEventListener("pointerdown", onPointerDown);
+  }, [openAt]);
+
+  function toggle(i: number) {
+    if (openAt === i) return setOpenAt(null);
+    setOpenAt(i);
+    onLookup?.(segments[i].text);
+  }
+
+  return (
+    <div ref={rootRef} className="space-y-2" onKeyDown={(e) => e.key === "Escape" && setOpenAt(null)}>
+      <p lang="en" className="whitespace-pre-line leading-8">
+        {segments.map((seg, i) =>
+          seg.kind === "text" ? (
+            <React.Fragment key={i}>{seg.text}</React.Fragment>
+          ) : (
+            <span key={i} className="relative">
+              <button
+                type="button"
+                aria-expanded={openAt === i}
+                className="rounded-md px-px underline decoration-dotted decoration-muted-foreground/40 underline-offset-4 hover:bg-muted outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 aria-expanded:bg-muted"
+                onClick={() => toggle(i)}
+              >
+                {seg.text}
+              </button>
+              {openAt === i ? (
+                <span
+                  role="tooltip"
+                  className="absolute left-0 top-full z-20 mt-1 w-max max-w-64 rounded-xl border bg-popover text-popover-foreground px-3 py-2 text-sm leading-5 shadow-md"
+                >
+                  <span className="font-medium">{seg.text}</span>
+                  {gloss && gloss.base !== seg.text.toLowerCase() ? (
+                    <span className="text-muted-foreground"> ({gloss.base})</span>
+                  ) : null}
+                  <br />
+                  <span lang="nb">{gloss ? gloss.gloss : t.glossary.notFound}</span>
+                </span>
+              ) : null}
+            </span>
+          )
+        )}
+      </p>
+      <div className="sr-only" role="status">
+        {openWord ? `${openWord}: ${gloss ? gloss.gloss : t.glossary.notFound}` : ""}
+      </div>
+      <div className="text-xs text-muted-foreground">{t.glossary.hint}</div>
+    </div>
+  );
+}
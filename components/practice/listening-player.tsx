@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import type { ListeningItem } from "@/lib/tests/types";
+import {
+  DEFAULT_MAX_PLAYS,
+  getEnglishVoices,
+  hasSpeechSynthesis,
+  playsUsed,
+  speakDialogue,
+  subscribeVoices,
+  type ListeningPlays,
+} from "@/lib/listening";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Listening Player
+ *  ----------------------------- */
+const NO_VOICES: SpeechSynthesisVoice[] = [];
+
+// Plays the dialogue with speech synthesis, or the bundled recording when the browser can't speak.
+// The dialogue text itself is never shown here, not even when neither is available: the
+// transcript only appears on the Results tab.
+export function ListeningPlayer({
+  item,
+  plays,
+  onPlay,
+}: {
+  item: ListeningItem;
+  plays: ListeningPlays;
+  onPlay: (itemId: string) => void;
+}) {
+  const { t } = useLocale();
+  const voices = useSyncExternalStore(subscribeVoices, getEnglishVoices, () => NO_VOICES);
+  // null until hydrated, so the server doesn't render the "can't play" notice to browsers that can.
+  const canSpeak = useSyncExternalStore<boolean | null>(subscribeVoices, hasSpeechSynthesis, () => null);
+  const [playing, setPlaying] = useState(false);
+  const stopRef = useRef<(() => void) | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const maxPlays = item.maxPlays ?? DEFAULT_MAX_PLAYS;
+  const used = playsUsed(item, plays);
+  const left = Math.max(0, maxPlays - used);
+  const useAudio = !canSpeak && !!item.audioSrc;
+
+  // Stop speaking when the item leaves the screen (e.g. finishing the test mid-dialogue).
+  useEffect(() => () => stopRef.current?.(), []);
+
+  function play() {
+    if (left <= 0 || playing) return;
+    onPlay(item.id);
+    setPlaying(true);
+    if (useAudio) {
+      const audio = audioRef.current;
+      if (!audio) return setPlaying(false);
+      audio.currentTime = 0;
+      audio.play().catch(() => setPlaying(false));
+      return;
+    }
+    stopRef.current = speakDialogue(item.dialogue, voices, () => {
+      stopRef.current = null;
+      setPlaying(false);
+    });
+  }
+
+  function stop() {
+    if (useAudio) {
+      audioRef.current?.pause();
+      setPlaying(false);
+    } else {
+      stopRef.current?.();
+    }
+  }
+
+  if (canSpeak === null) return null;
+
+  if (!canSpeak && !item.audioSrc) {
+    return (
+      <div className="p-3 rounded-2xl border bg-muted/30 text-sm text-muted-foreground">{t.listening.noSpeech}</div>
+    );
+  }
+
+  return (
+    <div className="p-3 rounded-2xl border bg-muted/30 flex flex-wrap items-center gap-3">
+      {useAudio ? (
+        <audio ref={audioRef} src={item.audioSrc} preload="auto" onEnded={() => setPlaying(false)} />
+      ) : null}
+      {playing ? (
+        <Button type="button" variant="secondary" className="rounded-2xl" onClick={stop}>
+          {t.listening.stop}
+        </Button>
+      ) : (
+        <Button type="button" className="rounded-2xl" onClick={play} disabled={left <= 0}>
+          {used === 0 ? t.listening.play : t.listening.playAgain}
+        </Button>
+      )}
+      <span className="text-sm text-muted-foreground" aria-live="polite">
+        {playing
+          ? t.listening.playing
+          : left > 0
+            ? t.listening.playsLeft(left, maxPlays)
+            : t.listening.noPlaysLeft}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { Test, WritingItem } from "@/lib/tests/types";
+import {
+  displayAnswer,
+  formatPoints,
+  percent,
+  scoreTest,
+  shortAnswerHints,
+  type Answers,
+} from "@/lib/scoring";
+import { AnswerReview } from "@/components/practice/answer-review";
+import { ScoreBreakdown } from "@/components/practice/score-breakdown";
+import { RubricInput } from "@/components/practice/rubric-input";
+import { AnswerWithFeedback } from "@/components/practice/writing-feedback";
+import type { WritingScore, WritingScores } from "@/lib/writing-rubric";
+import { testFeedback, type WritingFeedback } from "@/lib/writing-feedback";
+import { formatClock, type ExamTiming } from "@/lib/exam";
+import { lookupWord } from "@/lib/glossary";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Export
+ *  ----------------------------- */
+export function exportText(test: Test, answers: Answers) {
+  return test.sections
+    .flatMap((s) =>
+      s.items.map((it) => `${s.name} • ${it.prompt}\nAnswer: ${displayAnswer(it, answers) || "—"}`)
+    )
+    .join("\n\n");
+}
+
+/** -----------------------------
+ *  Writing
+ *  ----------------------------- */
+// Each writing item with the automatic check and its rubric. A teacher or parent can rescore it here.
+function WritingCard({
+  items,
+  answers,
+  feedback,
+  writingScores,
+  onWritingScore,
+}: {
+  items: WritingItem[];
+  answers: Answers;
+  feedback: Record<string, WritingFeedback>;
+  writingScores: WritingScores;
+  onWritingScore?: (itemId: string, score: WritingScore) => void;
+}) {
+  const { t } = useLocale();
+  const [reviewing, setReviewing] = useState(false);
+  if (items.length === 0) return null;
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg">{t.results.writing}</CardTitle>
+          {onWritingScore ? (
+            <Button
+              variant={reviewing ? "default" : "outline"}
+              size="sm"
+              className="rounded-2xl"
+              aria-pressed={reviewing}
+              onClick={() => setReviewing((r) => !r)}
+            >
+              {reviewing ? t.results.reviewDone : t.results.reviewStart}
+            </Button>
+          ) : null}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          {reviewing ? t.results.reviewIntro : t.results.writingIntro}
+        </div>
+        {items.map((it) => {
+          const score = writingScores[it.id];
+          return (
+            <div key={it.id} className="p-3 rounded-2xl border space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div lang="en" className="font-medium whitespace-pre-line">
+                  {it.prompt}
+                </div>
+                <Badge className="rounded-full" variant={score?.by === "reviewer" ? "default" : "secondary"}>
+                  {t.results.scoredBy[score?.by ?? "none"]}
+                </Badge>
+              </div>
+              <AnswerWithFeedback answer={answers[it.id] ?? ""} feedback={feedback[it.id]} />
+              <RubricInput
+                item={it}
+                score={score}
+                by="reviewer"
+                onChange={reviewing && onWritingScore ? (s) => onWritingScore(it.id, s) : undefined}
+              />
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** -----------------------------
+ *  Results
+ *  ----------------------------- */
+// The Results layout, shared by the live test and by read-only views of past attempts.
+const NO_LOOKUPS: string[] = [];
+
+export function ResultsView({
+  test,
+  answers,
+  writingScores,
+  onWritingScore,
+  lookups = NO_LOOKUPS,
+  timing,
+  studentName,
+  actions,
+}: {
+  test: Test;
+  answers: Answers;
+  writingScores: WritingScores;
+  onWritingScore?: (itemId: string, score: WritingScore) => void; // lets a reviewer rescore the writing
+  lookups?: string[]; // words looked up in the reading text
+  timing?: ExamTiming | null; // exam mode only
+  studentName?: string | null; // the profile or report name, when there is one
+  actions?: React.ReactNode; // buttons under the export card
+}) {
+  const { t } = useLocale();
+  const summary = useMemo(() => scoreTest(test, answers, writingScores), [test, answers, writingScores]);
+  const { autoScore, totalAutoPoints, writingScore, totalWritingPoints, unscoredWriting, finalScore, totalPoints } =
+    summary;
+  const writingItems = useMemo(
+    () => test.sections.flatMap((s) => s.items).filter((it): it is WritingItem => it.type === "writing"),
+    [test]
+  );
+  const shortHints = useMemo(() => shortAnswerHints(test, answers), [test, answers]);
+  const feedback = useMemo(() => testFeedback(test, answers), [test, answers]);
+  const glossed = useMemo(
+    () => lookups.map((word) => ({ word, gloss: lookupWord(word, test.glossary) })),
+    [test, lookups]
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-3xl shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">{t.results.yourScore}</CardTitle>
+          {studentName?.trim() ? (
+            <div className="text-sm text-muted-foreground">{t.results.student(studentName.trim())}</div>
+          ) : null}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <div className="text-3xl font-semibold">
+                {formatPoints(finalScore)} / {totalPoints}
+              </div>
+              <div className="text-sm text-muted-foreground mt-1">
+                {t.results.autoScored}: {formatPoints(autoScore)} / {totalAutoPoints}
+                {totalWritingPoints ? ` • ${t.results.writing}: ${writingScore} / ${totalWritingPoints}` : ""}
+              </div>
+              {unscoredWriting ? (
+                <div className="text-sm text-muted-foreground mt-1">{t.results.unscoredWriting(unscoredWriting)}</div>
+              ) : null}
+              {timing ? (
+                <div className="text-sm text-muted-foreground mt-1">
+                  {t.results.timeUsed(formatClock(timing.usedMs), formatClock(timing.limitMs))}
+                  {timing.autoSubmitted ? ` • ${t.results.autoSubmitted}` : ""}
+                </div>
+              ) : null}
+            </div>
+            <div className="w-full md:w-64">
+              <Progress value={percent(finalScore, totalPoints)} />
+              <div className="text-sm text-muted-foreground mt-1">{percent(finalScore, totalPoints)}%</div>
+            </div>
+          </div>
+
+          <ScoreBreakdown summary={summary} />
+        </CardContent>
+      </Card>
+
+      <AnswerReview test={test} answers={answers} />
+
+      <WritingCard
+        items={writingItems}
+        answers={answers}
+        feedback={feedback}
+        writingScores={writingScores}
+        onWritingScore={onWritingScore}
+      />
+
+      <Card className="rounded-3xl shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">{t.results.hintsTitle}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-sm text-muted-foreground">{t.results.hintsIntro}</div>
+
+          {shortHints.map((h) => (
+            <div key={h.id} className="p-3 rounded-2xl border">
+              <div className="flex items-start justify-between gap-3">
+                <div lang="en" className="font-medium whitespace-pre-line">
+                  {h.prompt}
+                </div>
+                <Badge className="rounded-full" variant={h.ok && h.hasHint ? "default" : "secondary"}>
+                  {h.ok ? (h.hasHint ? t.results.onTrack : t.results.checkDetails) : t.common.notAnswered}
+                </Badge>
+              </div>
+              {h.transcript ? (
+                <div className="text-sm mt-2 p-2 rounded-xl bg-muted/30">
+                  <div className="text-muted-foreground">{t.results.transcript}</div>
+                  {h.transcript.map((l, i) => (
+                    <div key={i} lang="en">
+                      <span className="font-medium">{l.speaker}:</span> “{l.text}”
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              {feedback[h.id] ? (
+                <div className="mt-2">
+                  <AnswerWithFeedback answer={answers[h.id] ?? ""} feedback={feedback[h.id]} />
+                </div>
+              ) : null}
+              {h.ok && !h.hasHint && h.keywords.length > 0 ? (
+                <div className="text-sm text-muted-foreground mt-2">
+                  {t.results.tryIdeas(h.keywords.join(", "))}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {glossed.length ? (
+        <Card className="rounded-3xl shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg">{t.results.lookupsTitle}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="text-sm text-muted-foreground">{t.results.lookupsIntro}</div>
+            <ul className="grid gap-2 sm:grid-cols-2">
+              {glossed.map(({ word, gloss }) => (
+                <li key={word} className="p-3 rounded-2xl border text-sm">
+                  <span lang="en" className="font-medium">
+                    {word}
+                  </span>{" "}
+                  <span lang="nb" className="text-muted-foreground">
+                    – {gloss ? gloss.gloss : t.glossary.notFound}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <Card className="rounded-3xl shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">{t.results.exportTitle}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-sm text-muted-foreground">{t.results.exportIntro}</div>
+          <Textarea className="rounded-2xl min-h-[180px]" readOnly value={exportText(test, answers)} />
+
+          {actions ? <div className="flex flex-wrap gap-2">{actions}</div> : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
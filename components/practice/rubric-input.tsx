@@ -0,0 +1,68 @@
+'use client';
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import type { RubricCriterion, WritingItem } from "@/lib/tests/types";
+import { itemRubric, rubricMax, scoreCriterion, writingPoints, type WritingScore } from "@/lib/writing-rubric";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Writing Rubric
+ *  ----------------------------- */
+// Scored with point buttons per criterion. Without `onChange` the rubric is shown read-only.
+export function RubricInput({
+  item,
+  score,
+  by,
+  onChange,
+}: {
+  item: WritingItem;
+  score: WritingScore | undefined;
+  by: WritingScore["by"];
+  onChange?: (score: WritingScore) => void;
+}) {
+  const { t, locale } = useLocale();
+  const given = score?.criteria ?? {};
+
+  function text(c: RubricCriterion) {
+    return locale === "nb"
+      ? { label: c.labelNb ?? c.label, hint: c.hintNb ?? c.hint, lang: c.labelNb ? "nb" : "en" }
+      : { label: c.label, hint: c.hint, lang: "en" };
+  }
+
+  return (
+    <div className="space-y-3">
+      {itemRubric(item).map((c) => {
+        const { label, hint, lang } = text(c);
+        return (
+          <div key={c.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div className="text-sm" lang={lang}>
+              <div className="font-medium">{label}</div>
+              {hint ? <div className="text-muted-foreground">{hint}</div> : null}
+            </div>
+            <div role="group" aria-label={label} className="flex gap-1 shrink-0">
+              {Array.from({ length: c.max + 1 }, (_, points) => (
+                <Button
+                  key={points}
+                  type="button"
+                  size="sm"
+                  variant={given[c.id] === points ? "default" : "secondary"}
+                  className="rounded-2xl w-9"
+                  aria-pressed={given[c.id] === points}
+                  aria-label={t.rubric.pointsOf(label, points, c.max)}
+                  disabled={!onChange}
+                  onClick={() => onChange?.(scoreCriterion(score, c.id, points, by))}
+                >
+                  {points}
+                </Button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <div className="text-sm font-medium">
+        {t.rubric.total(writingPoints(item, score ? { [item.id]: score } : {}), rubricMax(item))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import { formatPoints, percent, weakAreas, type ScoreSummary } from "@/lib/scoring";
+import { skillName } from "@/lib/tests/skills";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Score Breakdown
+ *  ----------------------------- */
+type Bar = { id: string; name: string; score: number; max: number; lang?: string };
+
+function Bars({ title, bars }: { title: string; bars: Bar[] }) {
+  const { t } = useLocale();
+  if (bars.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">{title}</div>
+      <ul className="space-y-2">
+        {bars.map((b) => {
+          const pct = percent(b.score, b.max);
+          return (
+            <li key={b.id} className="grid gap-1 sm:grid-cols-[12rem_1fr_auto] sm:items-center sm:gap-3 text-sm">
+              <span lang={b.lang}>{b.name}</span>
+              <Progress value={pct} aria-label={t.results.areaScore(b.name, formatPoints(b.score), b.max, pct)} />
+              <span className="text-muted-foreground tabular-nums">
+                {formatPoints(b.score)} / {b.max}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+// The advice is in the UI language; only the English examples in [brackets] are marked as English.
+function Advice({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/\[([^\]]+)\]/).map((part, i) =>
+        i % 2 ? (
+          <span key={i} lang="en">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+// Bars per section and per skill, then advice for the weakest areas.
+export function ScoreBreakdown({ summary }: { summary: ScoreSummary }) {
+  const { t } = useLocale();
+  const sections = summary.sections
+    .filter((s) => s.max > 0)
+    .map((s) => ({ id: s.id, name: s.name, score: s.score, max: s.max, lang: "en" }));
+  const skills = summary.skills.map((s) => ({
+    id: s.skill,
+    name: t.skills[s.skill] ?? skillName(s.skill),
+    score: s.score,
+    max: s.max,
+  }));
+  const weak = weakAreas(summary);
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 rounded-2xl border space-y-4">
+        <div className="font-medium">{t.results.breakdownTitle}</div>
+        <Bars title={t.results.bySection} bars={sections} />
+        <Bars title={t.results.bySkill} bars={skills} />
+      </div>
+
+      <div className="p-3 rounded-2xl border bg-muted/30 text-sm">
+        <div className="font-medium">{t.results.improveTitle}</div>
+        {weak.length ? (
+          <ul className="mt-2 space-y-2">
+            {weak.map((w) => (
+              <li key={`${w.kind}:${w.id}`}>
+                <div className="font-medium">
+                  {w.kind === "skill" ? (t.skills[w.id] ?? skillName(w.id)) : <span lang="en">{w.name}</span>}{" "}
+                  {t.results.advicePercent(w.percent)}
+                </div>
+                <div className="text-muted-foreground">
+                  <Advice text={(w.kind === "skill" && t.results.skillAdvice[w.id]) || t.results.sectionAdvice} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="mt-2 text-muted-foreground">{t.results.allGood}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Shuffle Option
+ *  ----------------------------- */
+// Chosen before the test starts; once the attempt has a seed, its order is fixed.
+export function ShuffleOptionCard({
+  checked,
+  locked,
+  onChange,
+}: {
+  checked: boolean;
+  locked: boolean; // the attempt already has an order
+  onChange: (next: boolean) => void;
+}) {
+  const { t } = useLocale();
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardContent className="space-y-1 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={checked}
+            disabled={locked}
+            aria-describedby="shuffle-hint"
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          <span>{t.shuffle.label}</span>
+        </label>
+        <div id="shuffle-hint" className="text-muted-foreground pl-6">{locked ? t.shuffle.locked : t.shuffle.hint}</div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import type { Section } from "@/lib/tests/types";
+import { optionLetter } from "@/lib/shuffle";
+import { WordOrderInput } from "@/components/practice/word-order-input";
+import { ClozeInput } from "@/components/practice/cloze-input";
+import { ListeningPlayer } from "@/components/practice/listening-player";
+import { RubricInput } from "@/components/practice/rubric-input";
+import type { WritingScore, WritingScores } from "@/lib/writing-rubric";
+import type { ListeningPlays } from "@/lib/listening";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  UI Pieces
+ *  ----------------------------- */
+// Native radios sharing a name: one Tab stop per question, arrow keys move between the options.
+function RadioOption({
+  name,
+  value,
+  checked,
+  onChange,
+  label,
+}: {
+  name: string;
+  value: string;
+  checked: boolean;
+  onChange: (val: string) => void;
+  label: string;
+}) {
+  return (
+    <label className="flex items-start gap-3 p-3 rounded-2xl border hover:bg-muted/40 cursor-pointer has-checked:border-primary has-checked:bg-primary/5 focus-within:ring-[3px] focus-within:ring-ring/50">
+      <input
+        className="mt-1"
+        type="radio"
+        name={name}
+        value={value}
+        checked={checked}
+        onChange={() => onChange(value)}
+      />
+      <span className="text-sm leading-5">{label}</span>
+    </label>
+  );
+}
+
+/** -----------------------------
+ *  Section
+ *  ----------------------------- */
+// One section of the Test tab. Also used for the live preview in the test editor,
+// and for one question at a time in adaptive practice.
+export function TestSection({
+  section,
+  answers,
+  onAnswer,
+  writingScores,
+  onWritingScore,
+  plays,
+  onPlay,
+  firstNumber = 1,
+  footer,
+  readOnly = false,
+}: {
+  section: Section;
+  answers: Record<string, string>;
+  onAnswer: (id: string, value: string) => void;
+  writingScores: WritingScores;
+  onWritingScore: (itemId: string, score: WritingScore) => void;
+  plays: ListeningPlays;
+  onPlay: (itemId: string) => void;
+  firstNumber?: number;
+  footer?: React.ReactNode; // replaces the "press Finish test" hint
+  readOnly?: boolean; // a finished attempt: answers are shown but can't be changed
+}) {
+  const { t } = useLocale();
+  // Items whose Norwegian guidance the student has opened.
+  const [showNb, setShowNb] = useState<Set<string>>(() => new Set());
+
+  function toggleNb(id: string) {
+    setShowNb((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <CardTitle lang="en" className="text-lg" role="heading" aria-level={3}>
+          {section.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {section.items.map((it, idx) => {
+          // The number and prompt name each answer field; the guidance describes it.
+          const labelledBy = `${it.id}-number ${it.id}-prompt`;
+          const describedBy = it.guidance ? `${it.id}-guidance` : undefined;
+          return (
+            <div key={it.id} className="space-y-3">
+              <div className="flex items-start gap-2">
+                <Badge id={`${it.id}-number`} variant="secondary" className="rounded-full">
+                  {firstNumber + idx}
+                </Badge>
+                <div>
+                  <div id={`${it.id}-prompt`} lang="en" className="font-medium whitespace-pre-line">
+                    {it.prompt}
+                  </div>
+                  {it.guidance ? (
+                    <div id={`${it.id}-guidance`} lang="en" className="text-sm text-muted-foreground mt-1">
+                      {it.guidance}
+                    </div>
+                  ) : null}
+                  {it.guidanceNb ? (
+                    <div className="mt-1 space-y-1">
+                      <button
+                        type="button"
+                        className="text-xs underline underline-offset-2 text-muted-foreground hover:text-foreground"
+                        aria-expanded={showNb.has(it.id)}
+                        aria-controls={`${it.id}-nb`}
+                        onClick={() => toggleNb(it.id)}
+                      >
+                        {showNb.has(it.id) ? t.items.hideNorwegian : t.items.showNorwegian}
+                      </button>
+                      {showNb.has(it.id) ? (
+                        <div id={`${it.id}-nb`} lang="nb" className="text-sm text-muted-foreground">
+                          {it.guidanceNb}
+                        </div>
+                      ) : null}
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+
+              <fieldset disabled={readOnly} className="min-w-0 space-y-3">
+                {it.type === "mcq" && (
+                  <fieldset
+                    lang="en"
+                    role="radiogroup"
+                    className="grid gap-2"
+                    aria-labelledby={labelledBy}
+                    aria-describedby={describedBy}
+                  >
+                    {it.options.map((opt, optIdx) => (
+                      <RadioOption
+                        key={opt.id}
+                        name={it.id}
+                        value={opt.id}
+                        label={`${optionLetter(optIdx)}) ${opt.label}`}
+                        checked={(answers[it.id] || "") === opt.id}
+                        onChange={(val) => onAnswer(it.id, val)}
+                      />
+                    ))}
+                  </fieldset>
+                )}
+
+                {it.type === "order" && (
+                  <WordOrderInput
+                    item={it}
+                    value={answers[it.id]}
+                    onChange={(val) => onAnswer(it.id, val)}
+                  />
+                )}
+
+                {it.type === "cloze" && (
+                  <ClozeInput item={it} answers={answers} onChange={onAnswer} />
+                )}
+
+                {it.type === "listening" && (
+                  <ListeningPlayer item={it} plays={plays} onPlay={onPlay} />
+                )}
+
+                {(it.type === "short" || it.type === "text" || it.type === "listening") && (
+                  <Textarea
+                    lang="en"
+                    className="rounded-2xl min-h-[90px]"
+                    aria-labelledby={labelledBy}
+                    aria-describedby={describedBy}
+                    placeholder={t.items.answerPlaceholder}
+                    value={answers[it.id] || ""}
+                    onChange={(e) => onAnswer(it.id, e.target.value)}
+                  />
+                )}
+
+                {it.type === "writing" && (
+                  <div className="space-y-3">
+                    <Textarea
+                      lang="en"
+                      className="rounded-2xl min-h-[140px]"
+                      aria-labelledby={labelledBy}
+                      aria-describedby={describedBy}
+                      placeholder={t.items.answerPlaceholder}
+                      value={answers[it.id] || ""}
+                      onChange={(e) => onAnswer(it.id, e.target.value)}
+                    />
+
+                    <div className="p-3 rounded-2xl border bg-muted/30 space-y-3">
+                      <div>
+                        <div className="text-sm font-medium">{t.items.selfCheckTitle}</div>
+                        <div className="text-sm text-muted-foreground">{t.items.selfCheckIntro}</div>
+                      </div>
+                      <RubricInput
+                        item={it}
+                        score={writingScores[it.id]}
+                        by="student"
+                        onChange={(score) => onWritingScore(it.id, score)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </fieldset>
+
+              <div className="h-px bg-border" />
+            </div>
+          );
+        })}
+
+        {readOnly ? null : footer ?? (
+          <div className="text-sm text-muted-foreground">
+            {t.items.sectionFooter} <span className="font-medium">{t.items.finishTest}</span>.
+          </div>
+        )}
+      </CardContent>
+    </Card>);
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { OrderItem } from "@/lib/tests/types";
+import { orderSentence, parseOrderAnswer, serializeOrderAnswer } from "@/lib/word-order";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Word Order Tiles
+ *  ----------------------------- */
+// Tap (or press Enter/Space on) a tile to move it between the bank and the sentence.
+// Placed tiles can be dragged to a new spot, or moved with the Left/Right arrow keys.
+export function WordOrderInput({
+  item,
+  value,
+  onChange,
+}: {
+  item: OrderItem;
+  value: string | undefined;
+  onChange: (val: string) => void;
+}) {
+  const { t } = useLocale();
+  const placed = parseOrderAnswer(item, value);
+  const bank = item.words.map((_, i) => i).filter((i) => !placed.includes(i));
+  const sentenceRef = useRef<HTMLDivElement>(null);
+  // What is being dragged: a placed tile (by position) or a bank tile (by word index).
+  const [drag, setDrag] = useState<{ from: "sentence" | "bank"; index: number } | null>(null);
+
+  function commit(next: number[]) {
+    onChange(serializeOrderAnswer(next));
+  }
+
+  function focusPlaced(pos: number) {
+    requestAnimationFrame(() => {
+      sentenceRef.current?.querySelector<HTMLButtonElement>(`[data-pos="${pos}"]`)?.focus();
+    });
+  }
+
+  function move(from: number, to: number) {
+    if (to < 0 || to >= placed.length || from === to) return;
+    const next = [...placed];
+    const [tile] = next.splice(from, 1);
+    next.splice(to, 0, tile);
+    commit(next);
+    focusPlaced(to);
+  }
+
+  // Drop at sentence position `to`, or at the end when `to` is null.
+  function drop(to: number | null) {
+    if (!drag) return;
+    if (drag.from === "sentence") {
+      move(drag.index, to ?? placed.length - 1);
+    } else {
+      const next = [...placed];
+      next.splice(to ?? placed.length, 0, drag.index);
+      commit(next);
+    }
+    setDrag(null);
+  }
+
+  const tileClass =
+    "rounded-xl border px-3 py-2 text-sm font-medium bg-background shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 touch-manipulation";
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={sentenceRef}
+        role="list"
+        aria-label={t.wordOrder.yourSentence}
+        className="min-h-[52px] flex flex-wrap gap-2 p-2 rounded-2xl border border-dashed"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          drop(null);
+        }}
+      >
+        {placed.length === 0 ? (
+          <span className="text-sm text-muted-foreground p-2">{t.wordOrder.emptyHint}</span>
+        ) : null}
+        {placed.map((wordIdx, pos) => (
+          <div role="listitem" key={wordIdx}>
+            <button
+              type="button"
+              data-pos={pos}
+              draggable
+              className={cn(tileClass, drag?.from === "sentence" && drag.index === pos && "opacity-50")}
+              aria-label={t.wordOrder.placedTile(item.words[wordIdx], pos + 1, placed.length)}
+              onClick={() => commit(placed.filter((_, p) => p !== pos))}
+              onKeyDown={(e) => {
+                if (e.key === "ArrowLeft") {
+                  e.preventDefault();
+                  move(pos, pos - 1);
+                } else if (e.key === "ArrowRight") {
+                  e.preventDefault();
+                  move(pos, pos + 1);
+                }
+              }}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDrag({ from: "sentence", index: pos });
+              }}
+              onDragEnd={() => setDrag(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                drop(pos);
+              }}
+            >
+              {item.words[wordIdx]}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div role="list" aria-label={t.wordOrder.wordsLeft} className="flex flex-wrap gap-2">
+        {bank.map((wordIdx) => (
+          <div role="listitem" key={wordIdx}>
+            <button
+              type="button"
+              draggable
+              className={cn(tileClass, "bg-muted/40 hover:bg-muted")}
+              aria-label={t.wordOrder.bankTile(item.words[wordIdx])}
+              onClick={() => commit([...placed, wordIdx])}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDrag({ from: "bank", index: wordIdx });
+              }}
+              onDragEnd={() => setDrag(null)}
+            >
+              {item.words[wordIdx]}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground" aria-live="polite">
+          {placed.length ? (
+            <>
+              {t.wordOrder.preview}{" "}
+              <span lang="en" className="text-foreground font-medium">
+                {orderSentence(placed.map((i) => item.words[i]), item.endMark)}
+              </span>
+            </>
+          ) : null}
+        </div>
+        {placed.length ? (
+          <Button type="button" variant="ghost" size="sm" className="rounded-2xl" onClick={() => commit([])}>
+            {t.wordOrder.clear}
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
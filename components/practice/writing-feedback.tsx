@@ -0,0 +1,74 @@
+'use client';
+
+import React from "react";
+import { highlightParts, type FeedbackIssue, type WritingFeedback } from "@/lib/writing-feedback";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Writing Feedback
+ *  ----------------------------- */
+// The student's text with spelling (wavy) and capital/end-mark (dotted) underlines, then the list
+// of what the automatic check found.
+export function AnswerWithFeedback({ answer, feedback }: { answer: string; feedback?: WritingFeedback }) {
+  const { t } = useLocale();
+
+  function message(issue: FeedbackIssue) {
+    switch (issue.kind) {
+      case "count":
+        return t.feedback.count(issue.found, issue.min, issue.max);
+      case "capital":
+        return t.feedback.capital(issue.sentence);
+      case "end-mark":
+        return t.feedback.endMark(issue.sentence);
+      case "tense":
+        return t.feedback.tense[issue.expected];
+      case "spelling":
+        return t.feedback.spelling(issue.word, issue.suggestion);
+    }
+  }
+
+  if (!answer.trim()) {
+    return <div className="text-sm p-2 rounded-xl bg-muted/30">{t.common.none}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div lang="en" className="text-sm whitespace-pre-line p-2 rounded-xl bg-muted/30">
+        {feedback
+          ? highlightParts(answer, feedback.highlights).map((p, i) =>
+              p.highlight ? (
+                <span
+                  key={i}
+                  title={p.highlight === "spelling" ? t.feedback.spellingMark : t.feedback.styleMark}
+                  className={
+                    p.highlight === "spelling"
+                      ? "underline decoration-wavy decoration-red-500 underline-offset-4"
+                      : "underline decoration-dotted decoration-2 decoration-amber-500 underline-offset-4"
+                  }
+                >
+                  {p.text}
+                </span>
+              ) : (
+                <React.Fragment key={i}>{p.text}</React.Fragment>
+              )
+            )
+          : answer}
+      </div>
+      {feedback ? (
+        <div className="text-sm">
+          <div className="font-medium">{t.feedback.title}</div>
+          {feedback.issues.length ? (
+            <ul className="mt-1 list-disc pl-5 space-y-1">
+              {feedback.issues.map((issue, i) => (
+                <li key={i}>{message(issue)}</li>
+              ))}
+            </ul>
+          ) : (
+            <div className="mt-1 text-muted-foreground">{t.feedback.noIssues}</div>
+          )}
+          <div className="mt-1 text-xs text-muted-foreground">{t.feedback.note}</div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { AVATARS, MAX_NAME_LENGTH, addProfile, isValidPin } from "@/lib/profiles";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Profile Form
+ *  ----------------------------- */
+export function AvatarPicker({ value, onChange }: { value: string; onChange: (avatar: string) => void }) {
+  const { t } = useLocale();
+  return (
+    <div role="group" aria-label={t.profiles.avatar} className="flex flex-wrap gap-1">
+      {AVATARS.map((a) => (
+        <button
+          key={a}
+          type="button"
+          aria-pressed={value === a}
+          aria-label={t.profiles.avatarOption(a)}
+          className={cn(
+            "size-10 rounded-xl text-2xl outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+            value === a ? "bg-primary/15 ring-2 ring-primary" : "hover:bg-muted"
+          )}
+          onClick={() => onChange(a)}
+        >
+          {a}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function PinInput({ id, value, onChange }: { id: string; value: string; onChange: (pin: string) => void }) {
+  return (
+    <Input
+      id={id}
+      className="rounded-xl w-28 tracking-widest"
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={4}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ""))}
+    />
+  );
+}
+
+// Adds a profile and switches to it.
+export function ProfileForm({ first }: { first: boolean }) {
+  const { t } = useLocale();
+  const nameId = useId();
+  const pinId = useId();
+  const [name, setName] = useState("");
+  const [avatar, setAvatar] = useState(AVATARS[0]);
+  const [pin, setPin] = useState("");
+  const pinOk = pin === "" || isValidPin(pin);
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim() || !pinOk) return;
+        void addProfile(name, avatar, pin);
+      }}
+    >
+      <div className="space-y-1">
+        <label htmlFor={nameId} className="text-sm font-medium">
+          {t.profiles.name}
+        </label>
+        <Input
+          id={nameId}
+          className="rounded-xl max-w-sm"
+          maxLength={MAX_NAME_LENGTH}
+          autoComplete="off"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <div className="text-sm font-medium">{t.profiles.avatar}</div>
+        <AvatarPicker value={avatar} onChange={setAvatar} />
+      </div>
+      <div className="space-y-1">
+        <label htmlFor={pinId} className="text-sm font-medium">
+          {t.profiles.pinOptional}
+        </label>
+        <PinInput id={pinId} value={pin} onChange={setPin} />
+        <div className="text-xs text-muted-foreground">{t.profiles.pinHint}</div>
+      </div>
+      {first ? <div className="text-sm text-muted-foreground">{t.profiles.firstNote}</div> : null}
+      <Button type="submit" className="rounded-2xl" disabled={!name.trim() || !pinOk}>
+        {t.profiles.add}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useId, useState } from "react";
+import { usePathname } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { checkPin, isValidPin, type Profile } from "@/lib/profiles";
+import { setActiveProfileId } from "@/lib/storage";
+import { useProfiles } from "@/hooks/use-profile";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+import { PinInput, ProfileForm } from "@/components/profiles/profile-form";
+
+/** -----------------------------
+ *  Profile Picker
+ *  ----------------------------- */
+// Pages that don't read a student's data open without choosing a profile.
+const OPEN_PATHS = ["/shared", "/teacher"];
+
+function PinPrompt({ profile, onCancel }: { profile: Profile; onCancel: () => void }) {
+  const { t } = useLocale();
+  const pinId = useId();
+  const [pin, setPin] = useState("");
+  const [wrong, setWrong] = useState(false);
+
+  async function submit() {
+    if (await checkPin(profile, pin)) setActiveProfileId(profile.id);
+    else {
+      setWrong(true);
+      setPin("");
+    }
+  }
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValidPin(pin)) void submit();
+      }}
+    >
+      <label htmlFor={pinId} className="block text-sm font-medium">
+        {t.profiles.enterPin(profile.name)}
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <PinInput id={pinId} value={pin} onChange={setPin} />
+        <Button type="submit" className="rounded-2xl" disabled={!isValidPin(pin)}>
+          {t.profiles.open}
+        </Button>
+        <Button type="button" variant="ghost" className="rounded-2xl" onClick={onCancel}>
+          {t.profiles.cancel}
+        </Button>
+      </div>
+      {wrong ? (
+        <div className="text-sm text-destructive" role="alert">
+          {t.profiles.wrongPin}
+        </div>
+      ) : null}
+    </form>
+  );
+}
+
+function ProfilePicker({ profiles }: { profiles: Profile[] }) {
+  const { t } = useLocale();
+  const [asking, setAsking] = useState<Profile | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.profiles.whoTitle}</h1>
+            <p className="text-sm text-muted-foreground">{t.profiles.whoIntro}</p>
+          </div>
+          <LocaleSwitch />
+        </header>
+
+        <Card className="rounded-3xl shadow-sm">
+          <CardContent className="space-y-4">
+            <ul className="grid gap-3 grid-cols-2 sm:grid-cols-3">
+              {profiles.map((p) => (
+                <li key={p.id}>
+                  <button
+                    type="button"
+                    className="w-full p-4 rounded-2xl border flex flex-col items-center gap-2 hover:bg-muted outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                    onClick={() => (p.pinHash ? setAsking(p) : setActiveProfileId(p.id))}
+                  >
+                    <span className="text-4xl" aria-hidden="true">
+                      {p.avatar}
+                    </span>
+                    <span className="font-medium">{p.name}</span>
+                    {p.pinHash ? <span className="text-xs text-muted-foreground">{t.profiles.hasPin}</span> : null}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {asking ? <PinPrompt key={asking.id} profile={asking} onCancel={() => setAsking(null)} /> : null}
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-3xl shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg">{t.profiles.addTitle}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {adding ? (
+              <ProfileForm first={false} />
+            ) : (
+              <Button variant="outline" className="rounded-2xl" onClick={() => setAdding(true)}>
+                {t.profiles.addAnother}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+/** Asks who is practising before any page that reads a student's data, once profiles exist. */
+export function ProfileGate({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  const { profiles, active, ready } = useProfiles();
+  if (OPEN_PATHS.some((p) => pathname.startsWith(p))) return children;
+  // Nothing until storage has been read: otherwise the page renders for whoever used it last,
+  // then swaps to the picker.
+  if (!ready) return null;
+  if (profiles.length === 0 || active) return children;
+  return <ProfilePicker profiles={profiles} />;
+}
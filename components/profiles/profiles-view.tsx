@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useId, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MAX_NAME_LENGTH, deleteProfile, hashPin, isValidPin, updateProfile, type Profile } from "@/lib/profiles";
+import { setActiveProfileId } from "@/lib/storage";
+import { useProfiles } from "@/hooks/use-profile";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+import { AvatarPicker, PinInput, ProfileForm } from "@/components/profiles/profile-form";
+
+/** -----------------------------
+ *  Profile Chip
+ *  ----------------------------- */
+// Who is practising, on the main page. Switching hands the device to the profile picker.
+export function ProfileChip() {
+  const { t } = useLocale();
+  const { active } = useProfiles();
+  if (!active) {
+    return (
+      <Button asChild variant="outline" className="rounded-2xl">
+        <Link href="/profiles">{t.nav.profiles}</Link>
+      </Button>
+    );
+  }
+  return (
+    <div className="inline-flex items-center gap-1 rounded-2xl border pl-3 pr-1 py-0.5">
+      <Link href="/profiles" className="text-sm font-medium hover:underline">
+        <span aria-hidden="true">{active.avatar}</span> {active.name}
+      </Link>
+      <Button variant="ghost" size="sm" className="rounded-xl" onClick={() => setActiveProfileId(null)}>
+        {t.profiles.switch}
+      </Button>
+    </div>
+  );
+}
+
+/** -----------------------------
+ *  Profile Settings
+ *  ----------------------------- */
+function EditProfile({ profile }: { profile: Profile }) {
+  const { t } = useLocale();
+  const nameId = useId();
+  const pinId = useId();
+  const [pin, setPin] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function savePin() {
+    if (!isValidPin(pin)) return;
+    updateProfile(profile.id, { pinHash: await hashPin(profile.id, pin) });
+    setPin("");
+    setStatus(t.profiles.pinSaved);
+  }
+
+  function removePin() {
+    updateProfile(profile.id, { pinHash: undefined });
+    setStatus(t.profiles.pinRemoved);
+  }
+
+  function remove() {
+    if (!window.confirm(t.profiles.confirmDelete(profile.name))) return;
+    deleteProfile(profile.id);
+  }
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">
+          <span aria-hidden="true">{profile.avatar}</span> {profile.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <label htmlFor={nameId} className="text-sm font-medium">
+            {t.profiles.name}
+          </label>
+          <Input
+            id={nameId}
+            className="rounded-xl max-w-sm"
+            maxLength={MAX_NAME_LENGTH}
+            defaultValue={profile.name}
+            onBlur={(e) => {
+              if (e.target.value.trim()) updateProfile(profile.id, { name: e.target.value });
+            }}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="text-sm font-medium">{t.profiles.avatar}</div>
+          <AvatarPicker value={profile.avatar} onChange={(avatar) => updateProfile(profile.id, { avatar })} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={pinId} className="text-sm font-medium">
+            {profile.pinHash ? t.profiles.changePin : t.profiles.setPin}
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <PinInput id={pinId} value={pin} onChange={setPin} />
+            <Button variant="secondary" className="rounded-2xl" disabled={!isValidPin(pin)} onClick={() => void savePin()}>
+              {t.profiles.savePin}
+            </Button>
+            {profile.pinHash ? (
+              <Button variant="ghost" className="rounded-2xl" onClick={removePin}>
+                {t.profiles.removePin}
+              </Button>
+            ) : null}
+          </div>
+          <div className="text-xs text-muted-foreground">{t.profiles.pinHint}</div>
+          {status ? (
+            <div className="text-sm text-muted-foreground" role="status">
+              {status}
+            </div>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Button variant="secondary" className="rounded-2xl" onClick={() => setActiveProfileId(null)}>
+            {t.profiles.switch}
+          </Button>
+          <Button variant="ghost" className="rounded-2xl text-destructive" onClick={remove}>
+            {t.profiles.delete}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ProfilesView() {
+  const { t } = useLocale();
+  const { profiles, active } = useProfiles();
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.profiles.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.profiles.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        {active ? <EditProfile key={active.id} profile={active} /> : null}
+
+        <Card className="rounded-3xl shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg">{profiles.length ? t.profiles.addTitle : t.profiles.firstTitle}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ProfileForm first={profiles.length === 0} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
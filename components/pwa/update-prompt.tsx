@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/hooks/use-locale";
+
+/** -----------------------------
+ *  Offline Support
+ *  ----------------------------- */
+// Registers the service worker (public/sw.js) and offers a reload when a deploy is waiting.
+// Development builds skip it: their files aren't hashed, so a cached copy would hide every edit.
+type UpdateState = "none" | "available" | "updating" | "failed";
+
+export function UpdatePrompt() {
+  const { t } = useLocale();
+  const [state, setState] = useState<UpdateState>("none");
+  const registration = useRef<ServiceWorkerRegistration | null>(null);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const sw = navigator.serviceWorker;
+
+    function onMessage(e: MessageEvent) {
+      if (e.data?.type === "update-available") setState((s) => (s === "none" ? "available" : s));
+      if (e.data?.type === "update-applied") window.location.reload();
+      if (e.data?.type === "update-failed") setState("failed");
+    }
+
+    function check() {
+      void registration.current?.update();
+      sw.controller?.postMessage({ type: "check-update", path: window.location.pathname });
+    }
+
+    sw.addEventListener("message", onMessage);
+    window.addEventListener("online", check);
+    sw.register("/sw.js").then(
+      (reg) => {
+        registration.current = reg;
+        // A new worker waits while this page is open; the first one takes over straight away.
+        if (reg.waiting && sw.controller) setState("available");
+        reg.addEventListener("updatefound", () => {
+          reg.installing?.addEventListener("statechange", (e) => {
+            if ((e.target as ServiceWorker).state === "installed" && sw.controller) setState("available");
+          });
+        });
+        check();
+      },
+      () => {
+        // Private mode and some embedded browsers refuse; the app simply stays online-only.
+      }
+    );
+    // Ask the browser not to clear saved attempts when the device runs low on space.
+    void navigator.storage?.persist?.();
+
+    return () => {
+      sw.removeEventListener("message", onMessage);
+      window.removeEventListener("online", check);
+    };
+  }, []);
+
+  function reload() {
+    const sw = navigator.serviceWorker;
+    const waiting = registration.current?.waiting;
+    setState("updating");
+    if (waiting) {
+      sw.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+      waiting.postMessage({ type: "skip-waiting" });
+    } else if (sw.controller) {
+      sw.controller.postMessage({ type: "apply-update" });
+    } else {
+      window.location.reload();
+    }
+  }
+
+  return (
+    <div role="status" className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4 pointer-events-none print:hidden">
+      {state !== "none" ? (
+        <div className="pointer-events-auto flex flex-wrap items-center gap-3 rounded-2xl border bg-background p-3 text-sm shadow-lg">
+          <span>{state === "failed" ? t.offline.updateFailed : t.offline.updateAvailable}</span>
+          <Button size="sm" className="rounded-2xl" disabled={state === "updating"} onClick={reload}>
+            {state === "updating" ? t.offline.updating : t.offline.reload}
+          </Button>
+          {state !== "updating" ? (
+            <Button size="sm" variant="ghost" className="rounded-2xl" onClick={() => setState("none")}>
+              {t.offline.later}
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useMemo } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Item, RubricCriterion, Test } from "@/lib/tests/types";
+import { HISTORY_STORAGE_KEY, type AttemptRecord } from "@/lib/history";
+import { STUDENT_NAME_STORAGE_KEY } from "@/lib/attempt-file";
+import { displayAnswer, formatPoints, isAutoScored, itemMaxPoints, itemPoints, percent, scoreTest } from "@/lib/scoring";
+import { itemRubric, writingPoints } from "@/lib/writing-rubric";
+import { formatClock } from "@/lib/exam";
+import { shuffleTest } from "@/lib/shuffle";
+import { writeJSON } from "@/lib/storage";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+import { useProfiles, useStudentName } from "@/hooks/use-profile";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+
+/** -----------------------------
+ *  Printable Report
+ *  ----------------------------- */
+// A plain page for one recorded attempt, laid out for paper: the browser's print dialogue saves it
+// as a PDF. The controls above the report are left out of the print.
+function Fact({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="font-medium">{children}</dd>
+    </div>
+  );
+}
+
+function Report({ attempt, test, studentName }: { attempt: AttemptRecord; test: Test; studentName: string }) {
+  const { t, locale, dateLocale } = useLocale();
+  const writingScores = useMemo(() => attempt.writingScores ?? {}, [attempt]);
+  const summary = useMemo(() => scoreTest(test, attempt.answers, writingScores), [test, attempt, writingScores]);
+  const { finalScore, totalPoints, unscoredWriting } = summary;
+
+  function points(item: Item) {
+    if (item.type === "writing") {
+      return writingScores[item.id]
+        ? `${formatPoints(writingPoints(item, writingScores))} / ${itemMaxPoints(item)}`
+        : t.report.notScoredYet;
+    }
+    return isAutoScored(item)
+      ? `${formatPoints(itemPoints(item, attempt.answers))} / ${itemMaxPoints(item)}`
+      : t.report.notScored;
+  }
+
+  function criterionLabel(c: RubricCriterion) {
+    return locale === "nb" ? (c.labelNb ?? c.label) : c.label;
+  }
+
+  // Numbered straight through the test, like on the Test tab.
+  const firstNumbers = test.sections.map((_, i) =>
+    test.sections.slice(0, i).reduce((n, s) => n + s.items.length, 1)
+  );
+
+  return (
+    <article className="space-y-8 text-sm">
+      <header className="space-y-4 border-b pb-4">
+        <h1 className="text-2xl font-semibold tracking-tight">{t.report.title}</h1>
+        <dl className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <Fact label={t.report.student}>{studentName.trim() || t.common.none}</Fact>
+          <Fact label={t.report.test}>
+            <span lang="en">{attempt.testTitle}</span>
+          </Fact>
+          <Fact label={t.report.finished}>{new Date(attempt.finishedAt).toLocaleString(dateLocale)}</Fact>
+          <Fact label={t.report.score}>
+            {formatPoints(finalScore)} / {totalPoints} ({percent(finalScore, totalPoints)}%)
+            {unscoredWriting ? (
+              <div className="text-xs font-normal text-muted-foreground">{t.results.unscoredWriting(unscoredWriting)}</div>
+            ) : null}
+          </Fact>
+          {attempt.timing ? (
+            <Fact label={t.report.time}>
+              {t.results.timeUsed(formatClock(attempt.timing.usedMs), formatClock(attempt.timing.limitMs))}
+            </Fact>
+          ) : null}
+        </dl>
+      </header>
+
+      <section className="space-y-2 break-inside-avoid">
+        <h2 className="text-lg font-semibold">{t.report.sectionsTitle}</h2>
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-1 pr-3 font-medium">{t.report.section}</th>
+              <th className="py-1 pr-3 font-medium text-right">{t.report.points}</th>
+              <th className="py-1 font-medium text-right">%</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.sections
+              .filter((s) => s.max > 0)
+              .map((s) => (
+                <tr key={s.id} className="border-b">
+                  <td className="py-1 pr-3" lang="en">
+                    {s.name}
+                  </td>
+                  <td className="py-1 pr-3 text-right tabular-nums">
+                    {formatPoints(s.score)} / {s.max}
+                  </td>
+                  <td className="py-1 text-right tabular-nums">{percent(s.score, s.max)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">{t.report.answersTitle}</h2>
+        {test.sections.map((section, si) => (
+          <div key={section.id} className="space-y-2">
+            <h3 className="font-semibold" lang="en">
+              {section.name}
+            </h3>
+            <ol className="space-y-3">
+              {section.items.map((item, i) => {
+                const answer = displayAnswer(item, attempt.answers);
+                return (
+                  <li key={item.id} className="break-inside-avoid border-b pb-3 space-y-1">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="font-medium whitespace-pre-line">
+                        {firstNumbers[si] + i}. <span lang="en">{item.prompt}</span>
+                      </div>
+                      <div className="shrink-0 tabular-nums text-muted-foreground">{points(item)}</div>
+                    </div>
+                    <div lang="en" className="whitespace-pre-line">
+                      {answer || t.common.notAnswered}
+                    </div>
+                    {item.type === "writing" ? (
+                      <table className="mt-2 w-full border-collapse text-xs">
+                        <tbody>
+                          {itemRubric(item).map((c) => (
+                            <tr key={c.id} className="border-t">
+                              <td className="py-1 pr-3">{criterionLabel(c)}</td>
+                              <td className="py-1 text-right tabular-nums">
+                                {writingScores[item.id]?.criteria[c.id] ?? t.common.none} / {c.max}
+                              </td>
+                            </tr>
+                          ))}
+                          <tr className="border-t">
+                            <td className="py-1 pr-3 text-muted-foreground" colSpan={2}>
+                              {t.results.scoredBy[writingScores[item.id]?.by ?? "none"]}
+                            </td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    ) : null}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        ))}
+      </section>
+    </article>
+  );
+}
+
+// The attempt id is read here rather than on the server, so the offline copy of this page
+// (public/sw.js) opens any saved attempt.
+export function ReportView() {
+  const { t } = useLocale();
+  const attemptId = useSearchParams().get("attempt");
+  const history = useStoredJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY);
+  const catalogue = useTestCatalogue();
+  const attempt = history?.find((a) => a.id === attemptId);
+  // An imported attempt or a profile names the report itself; without either the name is typed here.
+  const { active } = useProfiles();
+  const typedName = useStudentName() ?? "";
+  const fixedName = attempt?.studentName ?? active?.name;
+  const studentName = fixedName ?? typedName;
+  const entry = attempt ? catalogue.find((e) => e.key === attempt.testKey) : undefined;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6 print:max-w-none print:p-0">
+        <div className="space-y-4 print:hidden">
+          <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+            <p className="text-sm text-muted-foreground">{t.report.intro}</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <LocaleSwitch />
+              <Button asChild variant="outline" className="rounded-2xl">
+                <Link href="/history">{t.nav.history}</Link>
+              </Button>
+              <Button asChild variant="outline" className="rounded-2xl">
+                <Link href="/">{t.common.backToPractice}</Link>
+              </Button>
+            </div>
+          </header>
+
+          {attempt && entry ? (
+            <Card className="rounded-3xl shadow-sm">
+              <CardContent className="flex flex-col md:flex-row md:items-end gap-3">
+                {fixedName ? (
+                  <div className="flex-1 text-sm">{t.results.student(fixedName)}</div>
+                ) : (
+                  <div className="space-y-1 flex-1">
+                    <label htmlFor="student-name" className="text-sm text-muted-foreground">
+                      {t.report.nameLabel}
+                    </label>
+                    <Input
+                      id="student-name"
+                      className="rounded-xl"
+                      value={typedName}
+                      placeholder={t.report.namePlaceholder}
+                      onChange={(e) => writeJSON(STUDENT_NAME_STORAGE_KEY, e.target.value)}
+                    />
+                  </div>
+                )}
+                <Button className="rounded-2xl" onClick={() => window.print()}>
+                  {t.report.print}
+                </Button>
+              </CardContent>
+              <CardContent className="text-xs text-muted-foreground">{t.report.printHint}</CardContent>
+            </Card>
+          ) : null}
+        </div>
+
+        {attempt && entry ? (
+          <Report attempt={attempt} test={shuffleTest(entry.test, attempt.shuffleSeed)} studentName={studentName} />
+        ) : (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm text-muted-foreground">
+              {attempt ? t.report.testGone : t.report.notFound}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  VOCAB_DECK_STORAGE_KEY,
+  dueCards,
+  glossChoices,
+  removeCard,
+  saveCard,
+  scheduleReview,
+  type ReviewQuality,
+  type VocabCard,
+} from "@/lib/vocab-deck";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+import { useClock } from "@/hooks/use-clock";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+
+/** -----------------------------
+ *  Review Session
+ *  ----------------------------- */
+type Mode = "flashcards" | "mcq";
+
+type Session = {
+  mode: Mode;
+  queue: string[]; // words still to review; forgotten words go to the back again
+  reviewed: number;
+  total: number;
+  flipped: boolean; // flashcards: meaning shown
+  choices: string[]; // multiple choice: meanings for the current word
+  picked: string | null; // multiple choice: the student's pick
+};
+
+const SESSION_SIZE = 20;
+
+function Example({ card }: { card: VocabCard }) {
+  if (!card.example) return null;
+  return (
+    <div lang="en" className="text-sm text-muted-foreground italic">
+      “{card.example}”
+    </div>
+  );
+}
+
+function ReviewSession({
+  session,
+  deck,
+  onRate,
+  onPick,
+  onFlip,
+  onStop,
+}: {
+  session: Session;
+  deck: VocabCard[];
+  onRate: (card: VocabCard, quality: ReviewQuality) => void;
+  onPick: (gloss: string) => void;
+  onFlip: () => void;
+  onStop: () => void;
+}) {
+  const { t } = useLocale();
+  const card = deck.find((c) => c.word === session.queue[0]);
+
+  if (!card) {
+    return (
+      <Card className="rounded-3xl shadow-sm">
+        <CardContent className="space-y-4">
+          <div className="text-lg font-medium" role="status">
+            {t.deck.finished(session.reviewed)}
+          </div>
+          <Button className="rounded-2xl" onClick={onStop}>
+            {t.deck.backToDeck}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Words without a known meaning can only be drilled as flashcards.
+  const asMcq = session.mode === "mcq" && session.choices.length > 0;
+  const showAnswer = asMcq ? session.picked !== null : session.flipped;
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-muted-foreground">
+            {t.deck.progress(Math.min(session.reviewed + 1, session.total), session.total)}
+          </span>
+          <Button variant="ghost" size="sm" className="rounded-2xl" onClick={onStop}>
+            {t.deck.stop}
+          </Button>
+        </div>
+        <Progress value={(session.reviewed / session.total) * 100} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div lang="en" className="text-3xl font-semibold">
+            {card.word}
+          </div>
+          <Example card={card} />
+        </div>
+
+        {asMcq ? (
+          <div className="space-y-2">
+            <div className="text-sm text-muted-foreground">{t.deck.whatMeans}</div>
+            <div className="grid gap-2">
+              {session.choices.map((g) => (
+                <button
+                  key={g}
+                  type="button"
+                  lang="nb"
+                  disabled={session.picked !== null}
+                  className={cn(
+                    "text-left p-3 rounded-2xl border text-sm hover:bg-muted/40 disabled:cursor-default",
+                    session.picked !== null && g === card.gloss && "border-primary bg-primary/10",
+                    session.picked === g && g !== card.gloss && "border-destructive bg-destructive/10"
+                  )}
+                  onClick={() => onPick(g)}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+            {session.picked !== null ? (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="text-sm font-medium" role="status">
+                  {session.picked === card.gloss ? t.deck.right : t.deck.wrongWas(card.gloss ?? "")}
+                </div>
+                <Button className="rounded-2xl" onClick={() => onRate(card, session.picked === card.gloss ? 4 : 1)}>
+                  {t.deck.next}
+                </Button>
+              </div>
+            ) : null}
+          </div>
+        ) : showAnswer ? (
+          <div className="space-y-4">
+            <div lang="nb" className="p-3 rounded-2xl border bg-muted/30" role="status">
+              {card.gloss ?? t.deck.noMeaning}
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">{t.deck.rateTitle}</div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="secondary" className="rounded-2xl" onClick={() => onRate(card, 1)}>
+                  {t.deck.again}
+                </Button>
+                <Button variant="secondary" className="rounded-2xl" onClick={() => onRate(card, 3)}>
+                  {t.deck.hard}
+                </Button>
+                <Button className="rounded-2xl" onClick={() => onRate(card, 4)}>
+                  {t.deck.good}
+                </Button>
+                <Button variant="secondary" className="rounded-2xl" onClick={() => onRate(card, 5)}>
+                  {t.deck.easy}
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <Button className="rounded-2xl" onClick={onFlip}>
+            {t.deck.showMeaning}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** -----------------------------
+ *  Review
+ *  ----------------------------- */
+export function ReviewView() {
+  const { t, dateLocale } = useLocale();
+  const deck = useStoredJSON<VocabCard[]>(VOCAB_DECK_STORAGE_KEY) ?? [];
+  const now = useClock(true);
+  const [mode, setMode] = useState<Mode>("flashcards");
+  const [session, setSession] = useState<Session | null>(null);
+
+  const due = now === null ? [] : dueCards(deck, now);
+  const nextDue = deck.length ? Math.min(...deck.map((c) => c.due)) : null;
+
+  function choicesFor(word: string | undefined) {
+    const card = deck.find((c) => c.word === word);
+    return card && mode === "mcq" ? glossChoices(card, deck) : [];
+  }
+
+  function start() {
+    const queue = due.slice(0, SESSION_SIZE).map((c) => c.word);
+    setSession({
+      mode,
+      queue,
+      reviewed: 0,
+      total: queue.length,
+      flipped: false,
+      choices: choicesFor(queue[0]),
+      picked: null,
+    });
+  }
+
+  function rate(card: VocabCard, quality: ReviewQuality) {
+    if (!session) return;
+    saveCard(scheduleReview(card, quality, Date.now()));
+    // A forgotten word comes back once more at the end of this session.
+    const [, ...rest] = session.queue;
+    const queue = quality < 3 && !rest.includes(card.word) ? [...rest, card.word] : rest;
+    setSession({
+      ...session,
+      queue,
+      reviewed: session.reviewed + (quality < 3 ? 0 : 1),
+      flipped: false,
+      choices: choicesFor(queue[0]),
+      picked: null,
+    });
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.deck.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.deck.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        {session ? (
+          <ReviewSession
+            session={session}
+            deck={deck}
+            onRate={rate}
+            onPick={(gloss) => setSession({ ...session, picked: gloss })}
+            onFlip={() => setSession({ ...session, flipped: true })}
+            onStop={() => setSession(null)}
+          />
+        ) : deck.length === 0 ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm text-muted-foreground">{t.deck.empty}</CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="rounded-3xl shadow-sm">
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary" className="rounded-full">
+                    {t.deck.words(deck.length)}
+                  </Badge>
+                  <Badge variant={due.length ? "default" : "secondary"} className="rounded-full">
+                    {t.deck.dueNow(due.length)}
+                  </Badge>
+                </div>
+
+                <div role="group" aria-label={t.deck.drillType} className="flex flex-wrap gap-2">
+                  {(["flashcards", "mcq"] as const).map((m) => (
+                    <Button
+                      key={m}
+                      variant={mode === m ? "default" : "secondary"}
+                      className="rounded-2xl"
+                      aria-pressed={mode === m}
+                      onClick={() => setMode(m)}
+                    >
+                      {m === "flashcards" ? t.deck.flashcards : t.deck.multipleChoice}
+                    </Button>
+                  ))}
+                </div>
+
+                {due.length ? (
+                  <Button className="rounded-2xl" onClick={start}>
+                    {t.deck.start(Math.min(due.length, SESSION_SIZE))}
+                  </Button>
+                ) : nextDue !== null && now !== null ? (
+                  <div className="text-sm text-muted-foreground">
+                    {t.deck.nothingDue(new Date(nextDue).toLocaleString(dateLocale))}
+                  </div>
+                ) : null}
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-3xl shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">{t.deck.listTitle}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {[...deck]
+                    .sort((a, b) => a.due - b.due)
+                    .map((c) => (
+                      <li key={c.word} className="py-2 flex items-center justify-between gap-3 text-sm">
+                        <div>
+                          <span lang="en" className="font-medium">
+                            {c.word}
+                          </span>
+                          {c.gloss ? (
+                            <span lang="nb" className="text-muted-foreground">
+                              {" "}
+                              – {c.gloss}
+                            </span>
+                          ) : null}
+                          <div className="text-xs text-muted-foreground">
+                            {t.deck.nextReview(new Date(c.due).toLocaleDateString(dateLocale))}
+                          </div>
+                        </div>
+                        <Button variant="ghost" size="sm" className="rounded-2xl" onClick={() => removeCard(c.word)}>
+                          {t.deck.remove}
+                        </Button>
+                      </li>
+                    ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useState, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { decodeShareFragment, sharedTest, type SharedAttempt, type ShareLinkProblem } from "@/lib/share-link";
+import { formatPoints } from "@/lib/scoring";
+import { shuffleTest } from "@/lib/shuffle";
+import { useTestCatalogue } from "@/hooks/use-test-catalogue";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+import { ResultsView } from "@/components/practice/results-view";
+
+/** -----------------------------
+ *  Shared Attempt
+ *  ----------------------------- */
+// Opens a share link: the attempt lives in the URL fragment, so nothing is stored on this device
+// and nothing can be changed. Shown with the Results layout under a banner.
+function subscribeHash(listener: () => void) {
+  window.addEventListener("hashchange", listener);
+  return () => window.removeEventListener("hashchange", listener);
+}
+
+type Decoded = { shared: SharedAttempt } | { problem: ShareLinkProblem };
+
+function SharedAttemptView({ shared }: { shared: SharedAttempt }) {
+  const { t, dateLocale } = useLocale();
+  const catalogue = useTestCatalogue();
+  const resolved = sharedTest(shared, catalogue);
+  const finished = new Date(shared.finishedAt).toLocaleString(dateLocale);
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-3xl shadow-sm border-primary/40">
+        <CardContent className="space-y-2" role="status">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge className="rounded-full">{t.shared.badge}</Badge>
+            <span className="font-medium">
+              {shared.studentName ? t.shared.byStudent(shared.studentName) : t.shared.title}
+            </span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            <span lang="en">{shared.testTitle}</span> • {t.shared.finished(finished)} •{" "}
+            {t.shared.scoreWhenShared(formatPoints(shared.score), shared.totalPoints)}
+          </div>
+          <div className="text-sm text-muted-foreground">{t.shared.readOnly}</div>
+          {"test" in resolved && resolved.changed ? (
+            <div className="text-sm p-2 rounded-xl bg-muted/50" role="alert">
+              {t.shared.testChanged}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {"test" in resolved ? (
+        <ResultsView
+          test={shuffleTest(resolved.test, shared.shuffleSeed)}
+          answers={shared.answers}
+          writingScores={shared.writingScores ?? {}}
+          timing={shared.timing}
+          studentName={shared.studentName}
+        />
+      ) : (
+        <Card className="rounded-3xl shadow-sm">
+          <CardContent className="text-sm text-muted-foreground" role="alert">
+            {t.shared.testMissing}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export function SharedView() {
+  const { t } = useLocale();
+  // null until hydrated: the fragment only exists in the browser.
+  const fragment = useSyncExternalStore(
+    subscribeHash,
+    () => window.location.hash,
+    () => null
+  );
+  const [decoded, setDecoded] = useState<{ fragment: string; result: Decoded } | null>(null);
+
+  useEffect(() => {
+    if (fragment === null) return;
+    let current = true;
+    void decodeShareFragment(fragment).then((result) => {
+      if (current) setDecoded({ fragment, result });
+    });
+    return () => {
+      current = false;
+    };
+  }, [fragment]);
+
+  const result = decoded && decoded.fragment === fragment ? decoded.result : null;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.shared.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.shared.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.shared.openApp}</Link>
+            </Button>
+          </div>
+        </header>
+
+        {result === null ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm text-muted-foreground">{t.shared.opening}</CardContent>
+          </Card>
+        ) : "problem" in result ? (
+          <Card className="rounded-3xl shadow-sm">
+            <CardContent className="text-sm" role="alert">
+              {t.shared.problems[result.problem]}
+            </CardContent>
+          </Card>
+        ) : (
+          <SharedAttemptView shared={result.shared} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { readAttemptFile, type AttemptFileProblem } from "@/lib/attempt-file";
+import {
+  gridSections,
+  groupByTest,
+  itemAnalysis,
+  scoreGrid,
+  sectionAverage,
+  type ClassAttempt,
+  type ClassGroup,
+  type ItemStats,
+} from "@/lib/class-overview";
+import { formatPoints, itemMaxPoints, percent } from "@/lib/scoring";
+import { optionLetter } from "@/lib/shuffle";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSwitch } from "@/components/i18n/locale-switch";
+
+/** -----------------------------
+ *  Score Grid
+ *  ----------------------------- */
+function ScoreGrid({ group }: { group: ClassGroup }) {
+  const { t, dateLocale } = useLocale();
+  const rows = scoreGrid(group);
+  const sections = gridSections(group.test, rows);
+  const average = (f: (r: (typeof rows)[number]) => number) => rows.reduce((s, r) => s + f(r), 0) / rows.length;
+
+  return (
+    <Card className="rounded-3xl shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">{t.teacher.gridTitle}</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b text-left align-bottom">
+              <th className="py-2 pr-3 font-medium">{t.teacher.student}</th>
+              <th className="py-2 pr-3 font-medium">{t.teacher.finished}</th>
+              {sections.map((s) => (
+                <th key={s.id} className="py-2 pr-3 font-medium text-right" lang="en">
+                  {s.name}
+                </th>
+              ))}
+              <th className="py-2 font-medium text-right">{t.teacher.total}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.id} className="border-b">
+                <td className="py-2 pr-3 font-medium">{r.name}</td>
+                <td className="py-2 pr-3 text-muted-foreground">
+                  {new Date(r.finishedAt).toLocaleDateString(dateLocale)}
+                </td>
+                {sections.map((s) => {
+                  const score = r.sections.find((x) => x.id === s.id);
+                  return (
+                    <td key={s.id} className="py-2 pr-3 text-right tabular-nums">
+                      {score?.max ? `${formatPoints(score.score)} / ${score.max}` : t.common.none}
+                    </td>
+                  );
+                })}
+                <td className="py-2 text-right tabular-nums font-medium">
+                  {formatPoints(r.score)} / {r.totalPoints} ({percent(r.score, r.totalPoints)}%)
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="text-muted-foreground">
+              <td className="py-2 pr-3" colSpan={2}>
+                {t.teacher.classAverage}
+              </td>
+              {sections.map((s) => {
+                const avg = sectionAverage(rows, s.id);
+                return (
+                  <td key={s.id} className="py-2 pr-3 text-right tabular-nums">
+                    {avg ? `${formatPoints(avg.score)} (${Math.round(avg.percent)}%)` : t.common.none}
+                  </td>
+                );
+              })}
+              <td className="py-2 text-right tabular-nums">
+                {formatPoints(average((r) => r.score))} ({Math.round(average((r) => percent(r.score, r.totalPoints)))}%)
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** -----------------------------
+ *  Item Analysis
+ *  ----------------------------- */
+function ItemRow({ stats, students }: { stats: ItemStats; students: number }) {
+  const { t } = useLocale();
+  const { item } = stats;
+
+  return (
+    <li className="p-3 rounded-2xl border space-y-2 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="font-medium whitespace-pre-line">
+          {stats.number}. <span lang="en">{item.prompt}</span>
+        </div>
+        <Badge variant="secondary" className="rounded-full shrink-0">
+          {t.teacher.itemTypes[item.type]}
+        </Badge>
+      </div>
+
+      <div className="text-muted-foreground">
+        {t.teacher.answered(stats.answered, students)}
+        {stats.averagePoints !== null
+          ? ` • ${t.teacher.correct(stats.correct, stats.scored, percent(stats.correct, stats.scored))}`
+          : ""}
+        {stats.averagePoints !== null && item.type !== "mcq"
+          ? ` • ${t.teacher.average(formatPoints(stats.averagePoints), itemMaxPoints(item))}`
+          : ""}
+        {item.type === "writing" ? ` • ${t.teacher.writingScored(stats.scored, students)}` : ""}
+      </div>
+
+      {stats.options ? (
+        <ul className="space-y-1">
+          {stats.options.map((o, i) => (
+            <li key={o.id} className="grid grid-cols-[1fr_8rem_auto] items-center gap-3">
+              <span className={o.correct ? "font-medium" : undefined}>
+                {optionLetter(i)}) <span lang="en">{o.label}</span>
+                {o.correct ? ` (${t.teacher.rightAnswer})` : ""}
+              </span>
+              <Progress value={percent(o.chosen, students)} aria-label={t.teacher.chosenBy(o.chosen, students)} />
+              <span className="tabular-nums text-muted-foreground">{t.teacher.chosenBy(o.chosen, students)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {stats.keywordHits !== undefined ? (
+        <div>{t.teacher.keywordHits(stats.keywordHits, stats.answered, percent(stats.keywordHits, stats.answered))}</div>
+      ) : item.type === "short" || item.type === "listening" ? (
+        <div className="text-muted-foreground">{t.teacher.noKeywords}</div>
+      ) : null}
+    </li>
+  );
+}
+
+/** -----------------------------
+ *  Class Overview
+ *  ----------------------------- */
+export function TeacherView() {
+  const { t } = useLocale();
+  const [attempts, setAttempts] = useState<ClassAttempt[]>([]);
+  const [problems, setProblems] = useState<{ fileName: string; problem: AttemptFileProblem | "not-json" }[]>([]);
+  const [groupKey, setGroupKey] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const groups = useMemo(() => groupByTest(attempts), [attempts]);
+  const group = groups.find((g) => g.key === groupKey) ?? groups[0];
+  const items = useMemo(() => (group ? itemAnalysis(group) : []), [group]);
+
+  async function addFiles(files: File[]) {
+    const loaded: ClassAttempt[] = [];
+    const failed: typeof problems = [];
+    for (const file of files) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        failed.push({ fileName: file.name, problem: "not-json" });
+        continue;
+      }
+      const read = readAttemptFile(raw);
+      if ("problem" in read) failed.push({ fileName: file.name, problem: read.problem });
+      else loaded.push({ fileName: file.name, file: read.file });
+    }
+    // The same attempt loaded twice counts once.
+    setAttempts((prev) => {
+      const ids = new Set(loaded.map((a) => a.file.attempt.id));
+      return [...prev.filter((a) => !ids.has(a.file.attempt.id)), ...loaded];
+    });
+    setProblems(failed);
+  }
+
+  function clear() {
+    setAttempts([]);
+    setProblems([]);
+    setGroupKey(null);
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="max-w-6xl mx-auto p-4 md:p-8 space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.teacher.title}</h1>
+            <p className="text-sm text-muted-foreground">{t.teacher.intro}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <LocaleSwitch />
+            <Button asChild variant="outline" className="rounded-2xl">
+              <Link href="/">{t.common.backToPractice}</Link>
+            </Button>
+          </div>
+        </header>
+
+        <Card className="rounded-3xl shadow-sm">
+          <CardContent className="space-y-3">
+            <div
+              className={`p-6 rounded-2xl border-2 border-dashed text-center space-y-2 ${dragging ? "border-primary bg-muted/50" : ""}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragging(false);
+                void addFiles([...e.dataTransfer.files]);
+              }}
+            >
+              <div className="text-sm">{t.teacher.dropHere}</div>
+              <label htmlFor="attempt-files" className="block text-sm text-muted-foreground">
+                {t.teacher.orChoose}
+              </label>
+              <input
+                id="attempt-files"
+                type="file"
+                multiple
+                accept="application/json,.json"
+                className="mx-auto block text-sm"
+                onChange={(e) => {
+                  const files = [...(e.target.files ?? [])];
+                  e.target.value = ""; // so choosing the same files again fires onChange
+                  void addFiles(files);
+                }}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground" role="status">
+                {t.teacher.loaded(attempts.length, groups.length)}
+              </span>
+              {attempts.length ? (
+                <Button variant="ghost" size="sm" className="rounded-2xl" onClick={clear}>
+                  {t.teacher.clear}
+                </Button>
+              ) : null}
+            </div>
+
+            {problems.length ? (
+              <ul className="text-sm space-y-1" role="alert">
+                {problems.map((p, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{p.fileName}</span>: {t.history.importProblems[p.problem]}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+
+            <p className="text-xs text-muted-foreground">{t.teacher.privacy}</p>
+          </CardContent>
+        </Card>
+
+        {group ? (
+          <>
+            {groups.length > 1 ? (
+              <div className="space-y-1">
+                <label htmlFor="class-test" className="text-sm text-muted-foreground">
+                  {t.teacher.chooseTest}
+                </label>
+                <select
+                  id="class-test"
+                  className="block rounded-xl border px-3 py-2 bg-background text-sm"
+                  value={group.key}
+                  onChange={(e) => setGroupKey(e.target.value)}
+                >
+                  {groups.map((g) => (
+                    <option key={g.key} value={g.key}>
+                      {t.teacher.testOption(g.test.title, g.attempts.length)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+
+            <ScoreGrid group={group} />
+
+            <Card className="rounded-3xl shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg">{t.teacher.itemsTitle}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm text-muted-foreground">{t.teacher.itemsIntro}</div>
+                <ol className="space-y-3">
+                  {items.map((s) => (
+                    <ItemRow key={s.item.id} stats={s} students={group.attempts.length} />
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
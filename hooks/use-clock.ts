@@ -0,0 +1,23 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from "react";
+
+/**
+ * The current time in epoch ms, rounded down to the second and updated every second while
+ * `active`. Returns null during SSR and while inactive.
+ */
+export function useClock(active: boolean): number | null {
+  const subscribe = useCallback(
+    (onTick: () => void) => {
+      if (!active) return () => {};
+      const id = window.setInterval(onTick, 250);
+      return () => window.clearInterval(id);
+    },
+    [active]
+  );
+  return useSyncExternalStore(
+    subscribe,
+    () => (active ? Math.floor(Date.now() / 1000) * 1000 : null),
+    () => null
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useCallback } from "react";
+import { writeJSON } from "@/lib/storage";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_STORAGE_KEY,
+  getMessages,
+  isLocale,
+  localeInfo,
+  type Locale,
+} from "@/lib/i18n";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+
+/**
+ * The UI language chosen on this device and its strings.
+ * Renders in the default language until hydrated, then switches to the stored choice.
+ */
+export function useLocale() {
+  const stored = useStoredJSON<Locale>(LOCALE_STORAGE_KEY);
+  const locale = isLocale(stored) ? stored : DEFAULT_LOCALE;
+  const setLocale = useCallback((next: Locale) => writeJSON(LOCALE_STORAGE_KEY, next), []);
+  return { locale, t: getMessages(locale), dateLocale: localeInfo(locale).dateLocale, setLocale };
+}
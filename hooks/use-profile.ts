@@ -0,0 +1,25 @@
+'use client';
+
+import { useSyncExternalStore } from "react";
+import { activeProfileId, subscribeStorage } from "@/lib/storage";
+import { PROFILES_STORAGE_KEY, type Profile } from "@/lib/profiles";
+import { STUDENT_NAME_STORAGE_KEY } from "@/lib/attempt-file";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+
+/**
+ * The profiles on this device and the one chosen in this tab (null if none). `ready` is false
+ * during SSR and hydration, while storage can't be read and both look empty.
+ */
+export function useProfiles() {
+  const profiles = useStoredJSON<Profile[]>(PROFILES_STORAGE_KEY) ?? [];
+  const activeId = useSyncExternalStore(subscribeStorage, activeProfileId, () => null);
+  const ready = useSyncExternalStore(subscribeStorage, () => true, () => false);
+  return { profiles, active: profiles.find((p) => p.id === activeId) ?? null, ready };
+}
+
+/** The name for reports and exports: the profile's name, or the one typed on the report page. */
+export function useStudentName() {
+  const { active } = useProfiles();
+  const typed = useStoredJSON<string>(STUDENT_NAME_STORAGE_KEY);
+  return active?.name ?? typed;
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { useMemo, useSyncExternalStore } from "react";
+import { parseJSON, readRaw, subscribeStorage } from "@/lib/storage";
+
+/**
+ * Reads a JSON value from local storage and re-renders when it changes.
+ * Returns null during SSR and hydration, then the stored value.
+ */
+export function useStoredJSON<T>(key: string): T | null {
+  // The raw string is the snapshot: strings compare by value, so unchanged storage never re-renders.
+  const raw = useSyncExternalStore(
+    subscribeStorage,
+    () => readRaw(key),
+    () => null
+  );
+  return useMemo(() => parseJSON<T>(raw), [raw]);
+}
@@ -0,0 +1,11 @@
+'use client';
+
+import { useMemo } from "react";
+import { AUTHORED_TESTS_STORAGE_KEY, buildCatalogue, type AuthoredTest } from "@/lib/tests/authored";
+import { useStoredJSON } from "@/hooks/use-stored-json";
+
+/** Every test the picker can offer: the built-in packs plus tests authored on this device. */
+export function useTestCatalogue() {
+  const authored = useStoredJSON<AuthoredTest[]>(AUTHORED_TESTS_STORAGE_KEY);
+  return useMemo(() => buildCatalogue(authored), [authored]);
+}
@@ -0,0 +1,104 @@
+import type { Level } from "@/lib/tests/types";
+import type { BankItem, QuestionBank } from "@/lib/tests/bank";
+import { LEVELS } from "@/lib/tests/skills";
+import { isAutoScored, itemMaxPoints, itemPoints, type Answers } from "@/lib/scoring";
+import { seededShuffle } from "@/lib/shuffle";
+
+/** -----------------------------
+ *  Adaptive Practice
+ *  ----------------------------- */
+// A staircase over the question bank: a right answer steps up one level, a miss steps down,
+// a partly right answer stays. Only auto-scored items with a level take part, so every step
+// can be graded straight away.
+export type AdaptiveStep = {
+  key: string; // bankKey() of the item
+  level: Level; // the item's level
+  points: number;
+  maxPoints: number;
+};
+
+export type AdaptiveState = {
+  seed: number;
+  level: Level; // the level the next item is aimed at
+  steps: AdaptiveStep[];
+};
+
+export type LevelEstimate = {
+  level: Level;
+  // The staircase ran off the end of the levels on offer, so the real level may be further out.
+  bound: "above" | "below" | null;
+};
+
+// A bank item that can take part: auto-scored, and with a level to place it on the staircase.
+export type AdaptiveItem = BankItem & { item: BankItem["item"] & { level: Level } };
+
+export const ADAPTIVE_LENGTH = 12;
+export const START_LEVEL: Level = "A2";
+
+export function bankKey(b: BankItem) {
+  return `${b.sourceKey}:${b.item.id}`;
+}
+
+function isAdaptiveItem(b: BankItem): b is AdaptiveItem {
+  return !!b.item.level && isAutoScored(b.item);
+}
+
+export function adaptivePool(bank: QuestionBank): AdaptiveItem[] {
+  return bank.items.filter(isAdaptiveItem);
+}
+
+export function startAdaptive(seed: number): AdaptiveState {
+  return { seed, level: START_LEVEL, steps: [] };
+}
+
+function levelIndex(level: Level) {
+  return LEVELS.indexOf(level);
+}
+
+/**
+ * The next item: an unseen one as close as possible to the current level, or null when done.
+ * The session also ends early when nothing within one level of the target is left.
+ */
+export function nextAdaptiveItem(pool: AdaptiveItem[], state: AdaptiveState): AdaptiveItem | null {
+  if (state.steps.length >= ADAPTIVE_LENGTH) return null;
+  const seen = new Set(state.steps.map((s) => s.key));
+  const unseen = seededShuffle(
+    pool.filter((b) => !seen.has(bankKey(b))),
+    state.seed,
+    `step:${state.steps.length}`
+  );
+  const distance = (b: AdaptiveItem) => Math.abs(levelIndex(b.item.level) - levelIndex(state.level));
+  const next = unseen.sort((a, b) => distance(a) - distance(b))[0];
+  return next && distance(next) <= 1 ? next : null;
+}
+
+/** Grades the answer to `b` and moves the staircase. */
+export function recordAdaptiveStep(state: AdaptiveState, b: AdaptiveItem, answers: Answers): AdaptiveState {
+  const points = itemPoints(b.item, answers);
+  const maxPoints = itemMaxPoints(b.item);
+  const from = levelIndex(b.item.level);
+  const to = points >= maxPoints ? from + 1 : points > 0 ? from : from - 1;
+  return {
+    ...state,
+    level: LEVELS[Math.min(LEVELS.length - 1, Math.max(0, to))],
+    steps: [...state.steps, { key: bankKey(b), level: b.item.level, points, maxPoints }],
+  };
+}
+
+/** Right answers out of items tried, per level, for the levels that came up. */
+export function stepsByLevel(steps: AdaptiveStep[]) {
+  return LEVELS.map((level) => {
+    const at = steps.filter((s) => s.level === level);
+    return { level, tried: at.length, right: at.filter((s) => s.points >= s.maxPoints).length };
+  }).filter((l) => l.tried > 0);
+}
+
+/** The highest level where at least half the answers were right. */
+export function estimateLevel(steps: AdaptiveStep[], pool: AdaptiveItem[]): LevelEstimate | null {
+  if (steps.length === 0) return null;
+  const offered = pool.map((b) => levelIndex(b.item.level));
+  const passed = stepsByLevel(steps).filter((l) => l.right * 2 >= l.tried);
+  if (passed.length === 0) return { level: LEVELS[Math.min(...offered)], bound: "below" };
+  const level = passed[passed.length - 1].level;
+  return { level, bound: levelIndex(level) === Math.max(...offered) ? "above" : null };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { attemptCSV } from "@/lib/attempt-file";
+import type { AttemptRecord } from "@/lib/history";
+import type { Test } from "@/lib/tests/types";
+
+const test: Test = {
+  title: "Sample",
+  readingTitle: "A short text",
+  readingText: "Tom went to school.",
+  sections: [
+    {
+      id: "s1",
+      name: "Reading",
+      items: [{ id: "q1", type: "short", prompt: "Why did Tom go?" }],
+    },
+  ],
+};
+
+function record(answer: string): AttemptRecord {
+  return {
+    id: "a1",
+    testKey: "sample",
+    testTitle: test.title,
+    finishedAt: 0,
+    answers: { q1: answer },
+    score: 0,
+    totalPoints: 0,
+    sections: [],
+  };
+}
+
+function answerCell(csv: string) {
+  return csv.trimEnd().split("\r\n")[1].split(",")[9];
+}
+
+describe("attemptCSV", () => {
+  it("quotes cells with commas and quotes", () => {
+    expect(attemptCSV(record('He said "hi", then left'), test)).toContain(',"He said ""hi"", then left",');
+  });
+
+  it("keeps spreadsheet apps from running answers as formulas", () => {
+    for (const answer of ["=1+1", "+47 123", "-2", "@SUM(A1)"]) {
+      expect(answerCell(attemptCSV(record(answer), test))).toBe(`'${answer}`);
+    }
+    expect(answerCell(attemptCSV(record("To learn 2+2"), test))).toBe("To learn 2+2");
+  });
+});
@@ -0,0 +1,115 @@
+import type { Item, Test } from "@/lib/tests/types";
+import { findTestIssues } from "@/lib/tests/validate";
+import type { AttemptRecord } from "@/lib/history";
+import { displayAnswer, isAutoScored, itemMaxPoints, itemPoints } from "@/lib/scoring";
+import { writingPoints } from "@/lib/writing-rubric";
+import { shuffleTest } from "@/lib/shuffle";
+import { slugify } from "@/lib/download";
+
+/** -----------------------------
+ *  Attempt Files
+ *  ----------------------------- */
+// A finished attempt as a file: JSON with everything needed to open it again (the test comes
+// along, so it reads the same on a device that doesn't have it), or CSV for a spreadsheet.
+export const ATTEMPT_FILE_FORMAT = "english-practice-attempt";
+export const ATTEMPT_FILE_VERSION = 1;
+
+export type AttemptFile = {
+  format: typeof ATTEMPT_FILE_FORMAT;
+  version: number;
+  exportedAt: number; // epoch ms
+  studentName?: string;
+  attempt: AttemptRecord;
+  test: Test; // as authored; the attempt's shuffleSeed gives the order it was shown in
+};
+
+// The name printed on reports and written into exports, until it's changed on this device.
+export const STUDENT_NAME_STORAGE_KEY = "student-name";
+
+export function attemptFile(attempt: AttemptRecord, test: Test, studentName?: string | null): AttemptFile {
+  return {
+    format: ATTEMPT_FILE_FORMAT,
+    version: ATTEMPT_FILE_VERSION,
+    exportedAt: Date.now(),
+    ...(studentName?.trim() ? { studentName: studentName.trim() } : {}),
+    attempt: { ...attempt, lookups: undefined }, // looked-up words stay on this device
+    test,
+  };
+}
+
+/** "practice-test-day-1-2026-10-19.json" */
+export function attemptFileName(attempt: AttemptRecord, extension: "json" | "csv") {
+  const date = new Date(attempt.finishedAt).toISOString().slice(0, 10);
+  return `${slugify(attempt.testTitle)}-${date}.${extension}`;
+}
+
+export type AttemptFileProblem = "not-attempt" | "newer-version" | "invalid-test";
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** The attempt file in `raw` (parsed JSON), or what is wrong with it. */
+export function readAttemptFile(raw: unknown): { file: AttemptFile } | { problem: AttemptFileProblem } {
+  if (!isRecord(raw) || raw.format !== ATTEMPT_FILE_FORMAT || !isRecord(raw.attempt)) return { problem: "not-attempt" };
+  if (typeof raw.version !== "number" || raw.version > ATTEMPT_FILE_VERSION) return { problem: "newer-version" };
+  const a = raw.attempt;
+  if (
+    typeof a.id !== "string" ||
+    typeof a.testKey !== "string" ||
+    typeof a.finishedAt !== "number" ||
+    !isRecord(a.answers) ||
+    !Array.isArray(a.sections)
+  ) {
+    return { problem: "not-attempt" };
+  }
+  if (findTestIssues(raw.test).length) return { problem: "invalid-test" };
+  return { file: raw as AttemptFile };
+}
+
+/** -----------------------------
+ *  CSV
+ *  ----------------------------- */
+// Spreadsheet apps run a cell that starts with one of these as a formula, so a student could type
+// one into an answer. A leading apostrophe makes the app show the text as it is.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number) {
+  const s = typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function pointsFor(item: Item, attempt: AttemptRecord) {
+  if (item.type === "writing") {
+    return attempt.writingScores?.[item.id] ? writingPoints(item, attempt.writingScores) : "";
+  }
+  return isAutoScored(item) ? itemPoints(item, attempt.answers) : "";
+}
+
+/**
+ * One row per item, in the order the attempt showed them. Points are left empty for items that
+ * aren't scored (short answers, listening) and for writing nobody has scored yet.
+ */
+export function attemptCSV(attempt: AttemptRecord, test: Test, studentName?: string | null) {
+  const header = ["student", "test", "finished", "section", "number", "item", "type", "skills", "prompt", "answer", "points", "max"];
+  const finished = new Date(attempt.finishedAt).toISOString();
+  let number = 0;
+  const rows = shuffleTest(test, attempt.shuffleSeed).sections.flatMap((section) =>
+    section.items.map((item) => [
+      studentName?.trim() ?? "",
+      attempt.testTitle,
+      finished,
+      section.name,
+      ++number,
+      item.id,
+      item.type,
+      (item.skills ?? []).join(" "),
+      item.prompt,
+      displayAnswer(item, attempt.answers),
+      pointsFor(item, attempt),
+      itemMaxPoints(item) || "",
+    ])
+  );
+  // The byte-order mark makes spreadsheet apps read the file as UTF-8 (æ, ø, å and curly quotes).
+  return "\uFEFF" + [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  gridSections,
+  groupByTest,
+  itemAnalysis,
+  scoreGrid,
+  sectionAverage,
+  studentLabel,
+  type ClassAttempt,
+} from "@/lib/class-overview";
+import { attemptFile } from "@/lib/attempt-file";
+import type { AttemptRecord } from "@/lib/history";
+import type { Answers } from "@/lib/scoring";
+import type { Test } from "@/lib/tests/types";
+import type { WritingScores } from "@/lib/writing-rubric";
+
+const test: Test = {
+  title: "Sample",
+  readingTitle: "A short text",
+  readingText: "Tom went to school.",
+  sections: [
+    {
+      id: "s1",
+      name: "Reading",
+      items: [
+        {
+          id: "q1",
+          type: "mcq",
+          prompt: "Where did Tom go?",
+          options: [
+            { id: "a", label: "school" },
+            { id: "b", label: "home" },
+          ],
+          answer: "a",
+        },
+        { id: "q2", type: "short", prompt: "Why?", keywords: ["lesson"] },
+      ],
+    },
+    {
+      id: "s2",
+      name: "Writing",
+      items: [{ id: "w1", type: "writing", prompt: "Write about your day." }],
+    },
+  ],
+};
+
+const scored: WritingScores = {
+  w1: { by: "reviewer", criteria: { task: 2, sentences: 2, tense: 2, accuracy: 2, vocabulary: 2 } },
+};
+
+function attempt(
+  id: string,
+  name: string | null,
+  answers: Answers,
+  writingScores?: WritingScores,
+  onTest: Test = test
+): ClassAttempt {
+  const record: AttemptRecord = {
+    id,
+    testKey: "sample",
+    testTitle: onTest.title,
+    finishedAt: Number(id.slice(1)),
+    answers,
+    writingScores,
+    score: 0,
+    totalPoints: 0,
+    sections: [],
+  };
+  return { fileName: `${id}.json`, file: attemptFile(record, onTest, name) };
+}
+
+const attempts = [
+  attempt("a1", "Ola", { q1: "a", q2: "He had a lesson.", w1: "I went to school." }, scored),
+  attempt("a2", "Ada", { q1: "b", q2: "No idea", w1: "" }),
+  attempt("a3", null, { q1: "a" }),
+];
+
+describe("groupByTest", () => {
+  it("keeps attempts on an edited version of a test apart", () => {
+    const edited = attempt("a4", "Kari", { q1: "a" }, undefined, { ...test, title: "Sample (edited)" });
+    const groups = groupByTest([...attempts, edited]);
+    expect(groups.map((g) => g.attempts.length)).toEqual([3, 1]);
+    expect(groups[1].test.title).toBe("Sample (edited)");
+  });
+});
+
+describe("studentLabel", () => {
+  it("falls back to the file name", () => {
+    expect(attempts.map(studentLabel)).toEqual(["Ola", "Ada", "a3"]);
+  });
+});
+
+describe("scoreGrid", () => {
+  it("rescores every attempt and sorts by name", () => {
+    const [group] = groupByTest(attempts);
+    expect(scoreGrid(group).map((r) => [r.name, r.score, r.totalPoints])).toEqual([
+      ["a3", 1, 1],
+      ["Ada", 0, 1],
+      ["Ola", 11, 11],
+    ]);
+  });
+
+  it("keeps a section once any student has points for it, and averages it over those students", () => {
+    // The first row, a3, has no scored writing.
+    const [group] = groupByTest(attempts);
+    const rows = scoreGrid(group);
+    expect(gridSections(group.test, rows).map((s) => s.name)).toEqual(["Reading", "Writing"]);
+    expect(sectionAverage(rows, "s2")).toEqual({ score: 10, percent: 100 });
+    expect(sectionAverage(rows, "s1")?.percent).toBeCloseTo(200 / 3);
+  });
+
+  it("leaves out sections nobody has points for", () => {
+    const [group] = groupByTest(attempts.slice(1));
+    const rows = scoreGrid(group);
+    expect(gridSections(group.test, rows).map((s) => s.name)).toEqual(["Reading"]);
+    expect(sectionAverage(rows, "s2")).toBeNull();
+  });
+});
+
+describe("itemAnalysis", () => {
+  const [group] = groupByTest(attempts);
+  const [mcq, short, writing] = itemAnalysis(group);
+
+  it("counts answers and option choices for MCQs", () => {
+    expect(mcq).toMatchObject({ number: 1, answered: 3, scored: 3, correct: 2, averagePoints: 2 / 3 });
+    expect(mcq.options?.map((o) => [o.id, o.chosen, o.correct])).toEqual([
+      ["a", 2, true],
+      ["b", 1, false],
+    ]);
+  });
+
+  it("counts keyword hits for short answers, which carry no points", () => {
+    expect(short).toMatchObject({ answered: 2, scored: 0, averagePoints: null, keywordHits: 1 });
+  });
+
+  it("averages writing over the attempts where it was scored", () => {
+    expect(writing).toMatchObject({ sectionName: "Writing", answered: 1, scored: 1, correct: 1, averagePoints: 10 });
+  });
+});
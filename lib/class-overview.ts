@@ -0,0 +1,147 @@
+import type { Item, MCQItem, Section, Test } from "@/lib/tests/types";
+import type { AttemptFile } from "@/lib/attempt-file";
+import { testFingerprint } from "@/lib/share-link";
+import {
+  isAnswered,
+  isAutoScored,
+  itemMaxPoints,
+  itemPoints,
+  percent,
+  scoreTest,
+  type SectionScore,
+} from "@/lib/scoring";
+import { isWritingScored, writingPoints } from "@/lib/writing-rubric";
+import { containsAnyKeyword } from "@/lib/text";
+
+/** -----------------------------
+ *  Class Overview
+ *  ----------------------------- */
+// A teacher loads the attempt files students exported and sees the class per test: a score grid
+// with one row per student, and how each item went across the class.
+export type ClassAttempt = { fileName: string; file: AttemptFile };
+
+export type ClassGroup = {
+  key: string; // test key and content fingerprint: edited versions of a test are kept apart
+  test: Test;
+  attempts: ClassAttempt[];
+};
+
+/** Attempts grouped by the exact test they were taken on, in the order the tests first appear. */
+export function groupByTest(attempts: ClassAttempt[]): ClassGroup[] {
+  const groups = new Map<string, ClassGroup>();
+  for (const a of attempts) {
+    const key = `${a.file.attempt.testKey}:${testFingerprint(a.file.test)}`;
+    const group = groups.get(key) ?? { key, test: a.file.test, attempts: [] };
+    groups.set(key, { ...group, attempts: [...group.attempts, a] });
+  }
+  return [...groups.values()];
+}
+
+/** The student's name from the file, or the file name when it was exported without one. */
+export function studentLabel(a: ClassAttempt) {
+  return a.file.studentName ?? a.fileName.replace(/\.json$/i, "");
+}
+
+export type StudentRow = {
+  id: string;
+  name: string;
+  finishedAt: number;
+  sections: SectionScore[];
+  score: number;
+  totalPoints: number;
+};
+
+/** One row per attempt, by name. Scores are worked out again from the answers, like on Results. */
+export function scoreGrid(group: ClassGroup): StudentRow[] {
+  return group.attempts
+    .map((a) => {
+      const { attempt } = a.file;
+      const summary = scoreTest(group.test, attempt.answers, attempt.writingScores ?? {});
+      return {
+        id: attempt.id,
+        name: studentLabel(a),
+        finishedAt: attempt.finishedAt,
+        sections: summary.sections,
+        score: summary.finalScore,
+        totalPoints: summary.totalPoints,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || a.finishedAt - b.finishedAt);
+}
+
+// A section's points differ per student while writing is scored for some and not others, so the
+// columns and averages never rely on any one student's row.
+
+/** The grid's section columns: every section that has points for at least one student. */
+export function gridSections(test: Test, rows: StudentRow[]): Section[] {
+  return test.sections.filter((s) => rows.some((r) => (r.sections.find((x) => x.id === s.id)?.max ?? 0) > 0));
+}
+
+/** The class average for a section, over the students it has points for; null if there are none. */
+export function sectionAverage(rows: StudentRow[], sectionId: string): { score: number; percent: number } | null {
+  const scored = rows.flatMap((r) => r.sections.filter((s) => s.id === sectionId && s.max > 0));
+  if (scored.length === 0) return null;
+  return {
+    score: scored.reduce((sum, s) => sum + s.score, 0) / scored.length,
+    percent: scored.reduce((sum, s) => sum + percent(s.score, s.max), 0) / scored.length,
+  };
+}
+
+export type OptionStats = { id: string; label: string; chosen: number; correct: boolean };
+
+export type ItemStats = {
+  item: Item;
+  sectionName: string;
+  number: number; // in the order the test was written, not as shuffled for each student
+  answered: number;
+  scored: number; // attempts the item was scored in: all of them, or only scored writing
+  correct: number; // scored attempts with full marks
+  averagePoints: number | null; // null for items without points
+  options?: OptionStats[]; // mcq: how often each option was chosen
+  keywordHits?: number; // short and listening items with keyword hints: answers that use one
+};
+
+function mcqOptions(item: MCQItem, group: ClassGroup): OptionStats[] {
+  return item.options.map((o) => ({
+    id: o.id,
+    label: o.label,
+    chosen: group.attempts.filter((a) => a.file.attempt.answers[item.id] === o.id).length,
+    correct: o.id === item.answer,
+  }));
+}
+
+export function itemAnalysis(group: ClassGroup): ItemStats[] {
+  const answersOf = group.attempts.map((a) => a.file.attempt);
+  let number = 0;
+  return group.test.sections.flatMap((section) =>
+    section.items.map((item) => {
+      number += 1;
+      const answered = answersOf.filter((a) => isAnswered(item, a.answers)).length;
+      const max = itemMaxPoints(item);
+      const points =
+        item.type === "writing"
+          ? answersOf
+              .filter((a) => isWritingScored(item, a.writingScores ?? {}))
+              .map((a) => writingPoints(item, a.writingScores ?? {}))
+          : isAutoScored(item)
+            ? answersOf.map((a) => itemPoints(item, a.answers))
+            : [];
+      const stats: ItemStats = {
+        item,
+        sectionName: section.name,
+        number,
+        answered,
+        scored: points.length,
+        correct: points.filter((p) => p >= max).length,
+        averagePoints: points.length ? points.reduce((s, p) => s + p, 0) / points.length : null,
+      };
+      if (item.type === "mcq") stats.options = mcqOptions(item, group);
+      if ((item.type === "short" || item.type === "listening") && item.keywords?.length) {
+        stats.keywordHits = answersOf.filter(
+          (a) => isAnswered(item, a.answers) && containsAnyKeyword(a.answers[item.id], item.keywords)
+        ).length;
+      }
+      return stats;
+    })
+  );
+}
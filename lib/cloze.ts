@@ -0,0 +1,43 @@
+import type { ClozeGap, ClozeItem } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Cloze Passages
+ *  ----------------------------- */
+export type ClozeSegment = { kind: "text"; text: string } | { kind: "gap"; gapId: string };
+
+const GAP_RE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Splits "Emma was {{g1}} about…" into text and gap segments. */
+export function parseCloze(passage: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const m of passage.matchAll(GAP_RE)) {
+    if (m.index > last) segments.push({ kind: "text", text: passage.slice(last, m.index) });
+    segments.push({ kind: "gap", gapId: m[1] });
+    last = m.index + m[0].length;
+  }
+  if (last < passage.length) segments.push({ kind: "text", text: passage.slice(last) });
+  return segments;
+}
+
+// Each gap is answered separately, under its own key in the answers record.
+export function clozeAnswerKey(item: ClozeItem, gap: ClozeGap) {
+  return `${item.id}.${gap.id}`;
+}
+
+/** The sentence around a gap, with that gap as "____" and any other gaps as "…". */
+export function clozeGapContext(item: ClozeItem, gapId: string) {
+  const marked = item.passage.replace(GAP_RE, (_, id: string) => (id === gapId ? "\u0000" : "…"));
+  const sentences = marked.match(/[^.!?]*[.!?]+|[^.!?]+$/g) ?? [marked];
+  const sentence = sentences.find((s) => s.includes("\u0000")) ?? marked;
+  return sentence.replace("\u0000", "____").trim();
+}
+
+/** The passage with the student's answers filled in as [answer] (or [—] when empty). */
+export function clozeFilledText(item: ClozeItem, answers: Record<string, string>) {
+  return item.passage.replace(GAP_RE, (_, id: string) => {
+    const gap = item.gaps.find((g) => g.id === id);
+    const a = gap ? (answers[clozeAnswerKey(item, gap)] ?? "").trim() : "";
+    return `[${a || "—"}]`;
+  });
+}
@@ -0,0 +1,29 @@
+/** -----------------------------
+ *  Files
+ *  ----------------------------- */
+const REVOKE_AFTER_MS = 60_000;
+
+/** Saves `content` as a file through the browser's normal download flow. */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // The browser may still be reading the blob well after click() returns (a save dialog, a slow
+  // disk), and revoking it then cancels the download. A minute is plenty; the blob is freed after.
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_AFTER_MS);
+}
+
+/** "Practice Test – Mixed Skills" → "practice-test-mixed-skills" */
+export function slugify(s: string) {
+  return (
+    s
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "test"
+  );
+}
@@ -0,0 +1,88 @@
+import type { Test } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Exam Mode
+ *  ----------------------------- */
+export type ExamSettings = {
+  enabled: boolean;
+  mode: "total" | "section"; // one limit for the whole test, or one per section
+  minutes: number; // total limit, or the limit for sections without their own timeLimitMinutes
+};
+
+export type ExamState = {
+  mode: ExamSettings["mode"];
+  minutes: number;
+  startedAt: number; // epoch ms
+  sectionIndex: number; // the section on screen in "section" mode; earlier sections are locked
+  sectionStartedAt: number;
+  finishedAt?: number;
+  autoSubmitted?: boolean;
+};
+
+export type ExamTiming = {
+  usedMs: number;
+  limitMs: number;
+  autoSubmitted: boolean;
+};
+
+const MINUTE = 60 * 1000;
+export const DEFAULT_SECTION_MINUTES = 5;
+export const DEFAULT_TOTAL_MINUTES = 30;
+
+// A minutes value only makes sense for the mode it was chosen for, so switching modes starts over here.
+export function defaultExamMinutes(test: Test, mode: ExamSettings["mode"]) {
+  return mode === "section" ? DEFAULT_SECTION_MINUTES : (test.timeLimitMinutes ?? DEFAULT_TOTAL_MINUTES);
+}
+
+export function defaultExamSettings(test: Test): ExamSettings {
+  return { enabled: false, mode: "total", minutes: defaultExamMinutes(test, "total") };
+}
+
+export function startExam(settings: ExamSettings, now: number): ExamState {
+  return {
+    mode: settings.mode,
+    minutes: settings.minutes,
+    startedAt: now,
+    sectionIndex: 0,
+    sectionStartedAt: now,
+  };
+}
+
+export function sectionLimitMs(test: Test, exam: ExamState, index: number) {
+  return (test.sections[index]?.timeLimitMinutes ?? exam.minutes) * MINUTE;
+}
+
+export function totalLimitMs(test: Test, exam: ExamState) {
+  if (exam.mode === "total") return exam.minutes * MINUTE;
+  return test.sections.reduce((sum, _, i) => sum + sectionLimitMs(test, exam, i), 0);
+}
+
+/** When the current countdown runs out: the whole test, or the section on screen. */
+export function examDeadline(test: Test, exam: ExamState) {
+  if (exam.mode === "total") return exam.startedAt + totalLimitMs(test, exam);
+  return exam.sectionStartedAt + sectionLimitMs(test, exam, exam.sectionIndex);
+}
+
+/** The warning shows at 5 minutes left, or at 1 minute for limits that are 5 minutes or shorter. */
+export function warnAtMs(test: Test, exam: ExamState) {
+  const limit =
+    exam.mode === "total" ? totalLimitMs(test, exam) : sectionLimitMs(test, exam, exam.sectionIndex);
+  return limit > 5 * MINUTE ? 5 * MINUTE : MINUTE;
+}
+
+export function examTiming(test: Test, exam: ExamState): ExamTiming | null {
+  if (exam.finishedAt === undefined) return null;
+  return {
+    usedMs: exam.finishedAt - exam.startedAt,
+    limitMs: totalLimitMs(test, exam),
+    autoSubmitted: !!exam.autoSubmitted,
+  };
+}
+
+/** 754000 → "12:34" */
+export function formatClock(ms: number) {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
@@ -0,0 +1,78 @@
+import type { Test } from "@/lib/tests/types";
+import dictionary from "@/lib/glossary/en-nb.json";
+
+/** -----------------------------
+ *  Glossary
+ *  ----------------------------- */
+// Tap-to-translate for the reading passage. The bundled dictionary maps base forms to Norwegian;
+// a test can override or add glosses for its own words (e.g. a phrase-specific meaning).
+const DICTIONARY: Record<string, string> = dictionary;
+
+export type PassageSegment = { kind: "word"; text: string } | { kind: "text"; text: string };
+
+/** Splits a passage into words (letters, with inner apostrophes or hyphens) and everything in between. */
+export function splitWords(text: string): PassageSegment[] {
+  const segments: PassageSegment[] = [];
+  const re = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
+  let last = 0;
+  for (const m of text.matchAll(re)) {
+    const start = m.index ?? 0;
+    if (start > last) segments.push({ kind: "text", text: text.slice(last, start) });
+    // Numbers and things like "8th" are left as plain text.
+    segments.push({ kind: /[0-9]/.test(m[0]) ? "text" : "word", text: m[0] });
+    last = start + m[0].length;
+  }
+  if (last < text.length) segments.push({ kind: "text", text: text.slice(last) });
+  return segments;
+}
+
+export function normalizeWord(word: string) {
+  return word.toLowerCase().replace(/’/g, "'").replace(/'s$/, "");
+}
+
+// Base forms to try for an inflected word, most likely first.
+export function baseForms(w: string): string[] {
+  const forms = [w];
+  const undouble = (stem: string) => (/([b-df-hj-np-tv-z])\1$/.test(stem) ? [stem.slice(0, -1)] : []);
+  if (w.endsWith("ies")) forms.push(w.slice(0, -3) + "y");
+  if (w.endsWith("s")) forms.push(w.slice(0, -1));
+  if (w.endsWith("es")) forms.push(w.slice(0, -2));
+  if (w.endsWith("ied")) forms.push(w.slice(0, -3) + "y");
+  if (w.endsWith("ed")) forms.push(w.slice(0, -1), w.slice(0, -2), ...undouble(w.slice(0, -2)));
+  if (w.endsWith("ing")) forms.push(w.slice(0, -3), w.slice(0, -3) + "e", ...undouble(w.slice(0, -3)));
+  if (w.endsWith("ier")) forms.push(w.slice(0, -3) + "y");
+  if (w.endsWith("er")) forms.push(w.slice(0, -2), w.slice(0, -1), ...undouble(w.slice(0, -2)));
+  if (w.endsWith("est")) forms.push(w.slice(0, -3), w.slice(0, -2), ...undouble(w.slice(0, -3)));
+  return forms;
+}
+
+export type Gloss = { base: string; gloss: string }; // base: the dictionary form that matched
+
+/** Norwegian gloss for `word`, preferring the test's own glossary. Null if neither knows it. */
+export function lookupWord(word: string, overrides?: Test["glossary"]): Gloss | null {
+  const forms = baseForms(normalizeWord(word));
+  for (const source of [overrides ?? {}, DICTIONARY]) {
+    for (const f of forms) {
+      if (Object.hasOwn(source, f)) return { base: f, gloss: source[f] };
+    }
+  }
+  return null;
+}
+
+/** Whether `word` is a headword of the bundled dictionary as written, without trying base forms. */
+export function isDictionaryWord(word: string) {
+  return Object.hasOwn(DICTIONARY, word.toLowerCase());
+}
+
+export function dictionaryGlosses() {
+  return Object.values(DICTIONARY);
+}
+
+// Looked-up words are logged with the attempt (next to the answers, not in them), so they are saved,
+// resumed and kept in history, but never scored, exported or shared.
+
+/** Adds `word` to the log (once, in the order first looked up) and returns the new log. */
+export function addLookup(lookups: string[], word: string) {
+  const w = normalizeWord(word);
+  return lookups.includes(w) ? lookups : [...lookups, w];
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { gradeOrder, gradeText, tokenize } from "@/lib/grading";
+
+describe("tokenize", () => {
+  it("lower-cases, expands contractions and drops punctuation", () => {
+    expect(tokenize("She didn't go, I'm sure!")).toEqual(["she", "did", "not", "go", "i", "am", "sure"]);
+    expect(tokenize("Emma’s book")).toEqual(["emmas", "book"]);
+  });
+});
+
+describe("gradeText", () => {
+  const accepted = ["Tom went to school."];
+
+  it("gives full credit regardless of case, punctuation and contractions", () => {
+    expect(gradeText("tom went to school", accepted).points).toBe(1);
+    expect(gradeText("I didn't", ["I did not."]).points).toBe(1);
+  });
+
+  it("forgives a small typo with partial credit", () => {
+    const r = gradeText("Tom went to shcool", accepted);
+    expect(r.points).toBe(0.75);
+    expect(r.typos).toEqual([{ given: "shcool", expected: "school" }]);
+  });
+
+  it("does not treat a real word as a typo of the expected one", () => {
+    // The wrong tense is the mistake a past-simple item tests.
+    const wrongTense = gradeText("Tom want to school", accepted);
+    expect(wrongTense.points).toBe(0);
+    expect(wrongTense.typos).toEqual([]);
+    expect(wrongTense.missing).toEqual(["went"]);
+    expect(wrongTense.extra).toEqual(["want"]);
+
+    expect(gradeText("They was late", ["They were late."]).points).toBe(0);
+  });
+
+  it("still forgives misspellings that look like inflected words", () => {
+    const r = gradeText("Shes likes her new school", ["She likes her new school."]);
+    expect(r).toMatchObject({ points: 0.75, missing: [], extra: [] });
+    expect(r.typos).toEqual([{ given: "shes", expected: "she" }]);
+    expect(gradeText("He teached us", ["He teaches us."]).typos).toEqual([{ given: "teached", expected: "teaches" }]);
+  });
+
+  it("takes off for word order, missing and extra words", () => {
+    expect(gradeText("Tom to school went", accepted)).toMatchObject({ points: 0.5, orderCorrect: false });
+    expect(gradeText("Tom went school", accepted)).toMatchObject({ points: 0.5, missing: ["to"] });
+    expect(gradeText("Tom went to the school", accepted)).toMatchObject({ points: 0.75, extra: ["the"] });
+  });
+
+  it("keeps the best of several accepted answers", () => {
+    expect(gradeText("He walked to school", ["Tom went to school.", "He walked to school."]).points).toBe(1);
+  });
+
+  it("scores an empty answer 0", () => {
+    expect(gradeText("  ", accepted).points).toBe(0);
+  });
+
+  it("lists what was wrong as issues, and nothing for a correct answer", () => {
+    expect(gradeText("Tom went to the shcool", accepted).issues).toEqual([
+      { kind: "spelling", typos: [{ given: "shcool", expected: "school" }] },
+      { kind: "extra", words: ["the"] },
+    ]);
+    expect(gradeText("Tom went", accepted).issues).toEqual([{ kind: "missing", words: ["to", "school"] }]);
+    expect(gradeText("Tom went to school", accepted).issues).toEqual([]);
+  });
+
+  it("applies per-item penalties", () => {
+    expect(gradeText("Tom went to shcool", accepted, { typoPenalty: 0.5 }).points).toBe(0.5);
+  });
+});
+
+describe("gradeOrder", () => {
+  const expected = ["Tom", "went", "to", "school"];
+
+  it("gives full credit for the right order", () => {
+    expect(gradeOrder(["tom", "went", "to", "school"], expected)).toMatchObject({ points: 1, orderCorrect: true });
+  });
+
+  it("gives half credit when one word is out of place", () => {
+    expect(gradeOrder(["went", "Tom", "to", "school"], expected)).toMatchObject({
+      points: 0.5,
+      issues: [{ kind: "almost-order" }],
+    });
+  });
+
+  it("gives no credit when the order is mostly wrong", () => {
+    expect(gradeOrder(["school", "to", "went", "Tom"], expected)).toMatchObject({
+      points: 0,
+      issues: [{ kind: "order" }],
+    });
+    expect(gradeOrder([], expected)).toMatchObject({ points: 0, issues: [] });
+  });
+});
@@ -0,0 +1,201 @@
+import { editDistance } from "@/lib/text";
+import { isListedWord } from "@/lib/spelling";
+
+/** -----------------------------
+ *  Text Grading
+ *  ----------------------------- */
+// Forgiving grading for typed "text" answers: small typos, contractions, capitalisation and
+// punctuation are tolerated, and near-misses earn partial credit with a list of issues saying why.
+// The issues are data rather than sentences, so the review can word them in the student's language.
+
+export type GradingConfig = {
+  typoPenalty: number; // per letter that had to be changed in a misspelt word
+  orderPenalty: number; // once, if all the right words are there but in the wrong order
+  missingPenalty: number; // per expected word that is missing
+  extraPenalty: number; // per word that should not be there
+  minCredit: number; // anything below this scores 0, so only near-misses get partial credit
+};
+
+export const DEFAULT_GRADING: GradingConfig = {
+  typoPenalty: 0.25,
+  orderPenalty: 0.5,
+  missingPenalty: 0.5,
+  extraPenalty: 0.25,
+  minCredit: 0.5,
+};
+
+export type Typo = { given: string; expected: string };
+
+export type GradeIssue =
+  | { kind: "spelling"; typos: Typo[] }
+  | { kind: "order" }
+  | { kind: "almost-order" } // a word-order answer with one word in the wrong place
+  | { kind: "missing"; words: string[] }
+  | { kind: "extra"; words: string[] };
+
+export type GradeResult = {
+  points: number; // 0..1, in steps of 0.25
+  typoDistance: number; // total letters changed across misspelt words
+  typos: Typo[];
+  orderCorrect: boolean;
+  missing: string[];
+  extra: string[];
+  issues: GradeIssue[]; // empty when the answer is correct or missing
+};
+
+const CONTRACTIONS: [RegExp, string][] = [
+  [/\bcan't\b/g, "can not"],
+  [/\bcannot\b/g, "can not"],
+  [/\bwon't\b/g, "will not"],
+  [/\bshan't\b/g, "shall not"],
+  [/n't\b/g, " not"],
+  [/'re\b/g, " are"],
+  [/'m\b/g, " am"],
+  [/'ll\b/g, " will"],
+  [/'ve\b/g, " have"],
+  [/'d\b/g, " would"],
+  [/\b(he|she|it|that|there|what|who|where|here)'s\b/g, "$1 is"],
+];
+
+/** Lower-cases, expands contractions and drops punctuation, returning the words. */
+export function tokenize(s: string): string[] {
+  let t = (s || "").toLowerCase().replace(/[‘’`´]/g, "'");
+  for (const [re, repl] of CONTRACTIONS) t = t.replace(re, repl);
+  return t
+    .replace(/'s\b/g, "s") // possessives: "Emma's" → "emmas"
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// How many letters may differ before a word counts as a different word rather than a typo.
+// A real word is never a typo: "want" for "went" is the grammar mistake the item tests, not a slip
+// of the finger. Only words listed as written count, so "shes" or "goed" still earn typo credit.
+function typoTolerance(given: string, word: string) {
+  if (isListedWord(given)) return 0;
+  if (word.length <= 2) return 0;
+  if (word.length <= 5) return 1;
+  return 2;
+}
+
+function gradeAgainst(given: string[], expected: string[], config: GradingConfig): GradeResult {
+  const used = new Set<number>();
+  const matchedAt: number[] = []; // index into `given` for each matched expected word, in expected order
+  const typos: GradeResult["typos"] = [];
+  const missing: string[] = [];
+  let typoDistance = 0;
+
+  // Exact matches first, so a typo elsewhere can't steal a word that appears correctly.
+  const exact = expected.map((w) => {
+    const i = given.findIndex((g, gi) => g === w && !used.has(gi));
+    if (i >= 0) used.add(i);
+    return i;
+  });
+
+  expected.forEach((w, ei) => {
+    if (exact[ei] >= 0) {
+      matchedAt.push(exact[ei]);
+      return;
+    }
+    let best = -1;
+    let bestDist = Infinity;
+    given.forEach((g, gi) => {
+      if (used.has(gi)) return;
+      const d = editDistance(g, w);
+      if (d <= typoTolerance(g, w) && d < bestDist) {
+        best = gi;
+        bestDist = d;
+      }
+    });
+    if (best < 0) {
+      missing.push(w);
+      return;
+    }
+    used.add(best);
+    matchedAt.push(best);
+    typoDistance += bestDist;
+    typos.push({ given: given[best], expected: w });
+  });
+
+  const extra = given.filter((_, gi) => !used.has(gi));
+  const orderCorrect = matchedAt.every((gi, k) => k === 0 || gi > matchedAt[k - 1]);
+
+  const raw =
+    1 -
+    typoDistance * config.typoPenalty -
+    (orderCorrect ? 0 : config.orderPenalty) -
+    missing.length * config.missingPenalty -
+    extra.length * config.extraPenalty;
+  const points = raw < config.minCredit ? 0 : Math.round(raw * 4) / 4;
+
+  return { points, typoDistance, typos, orderCorrect, missing, extra, issues: [] };
+}
+
+function textIssues(r: GradeResult): GradeIssue[] {
+  if (r.points === 1) return [];
+  const issues: GradeIssue[] = [];
+  if (r.typos.length) issues.push({ kind: "spelling", typos: r.typos });
+  if (!r.orderCorrect) issues.push({ kind: "order" });
+  if (r.missing.length) issues.push({ kind: "missing", words: r.missing });
+  if (r.extra.length) issues.push({ kind: "extra", words: r.extra });
+  return issues;
+}
+
+const NO_CREDIT: GradeResult = {
+  points: 0,
+  typoDistance: 0,
+  typos: [],
+  orderCorrect: true,
+  missing: [],
+  extra: [],
+  issues: [],
+};
+
+/** Longest run of words (not necessarily adjacent) that is already in the right relative order. */
+function longestInOrder(given: string[], expected: string[]) {
+  const d = Array.from({ length: given.length + 1 }, () => new Array<number>(expected.length + 1).fill(0));
+  for (let i = 1; i <= given.length; i++) {
+    for (let j = 1; j <= expected.length; j++) {
+      d[i][j] = given[i - 1] === expected[j - 1] ? d[i - 1][j - 1] + 1 : Math.max(d[i - 1][j], d[i][j - 1]);
+    }
+  }
+  return d[given.length][expected.length];
+}
+
+/**
+ * Grades a word-order answer on token order only (the tiles fix spelling, capitals and punctuation).
+ * Moving a single word back into place is worth half a point.
+ */
+export function gradeOrder(given: string[], expected: string[]): GradeResult {
+  const g = given.map((w) => w.toLowerCase());
+  const e = expected.map((w) => w.toLowerCase());
+  if (g.length === 0) return NO_CREDIT;
+
+  const inOrder = longestInOrder(g, e);
+  const orderCorrect = inOrder === e.length && g.length === e.length;
+  const points = orderCorrect ? 1 : inOrder >= e.length - 1 ? 0.5 : 0;
+  const missing = e.filter((w) => !g.includes(w));
+  return {
+    ...NO_CREDIT,
+    points,
+    orderCorrect,
+    missing,
+    issues: orderCorrect ? [] : [{ kind: points > 0 ? "almost-order" : "order" }],
+  };
+}
+
+/** Grades `answer` against every accepted answer and keeps the best result. */
+export function gradeText(answer: string, accepted: string[], config: Partial<GradingConfig> = {}): GradeResult {
+  const cfg = { ...DEFAULT_GRADING, ...config };
+  const given = tokenize(answer);
+  if (given.length === 0) return NO_CREDIT;
+
+  let best: GradeResult | null = null;
+  for (const a of accepted) {
+    const result = gradeAgainst(given, tokenize(a), cfg);
+    if (!best || result.points > best.points) best = result;
+    if (result.points === 1) break;
+  }
+  if (!best) return NO_CREDIT;
+  return { ...best, issues: textIssues(best) };
+}
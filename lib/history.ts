@@ -0,0 +1,56 @@
+import type { Answers, SectionScore } from "@/lib/scoring";
+import { readJSON, writeJSON } from "@/lib/storage";
+import type { ExamTiming } from "@/lib/exam";
+import type { WritingScores } from "@/lib/writing-rubric";
+
+/** -----------------------------
+ *  Attempt History
+ *  ----------------------------- */
+export type AttemptRecord = {
+  id: string;
+  testKey: string;
+  testTitle: string; // kept so the history still reads well if a test is renamed or removed
+  finishedAt: number; // epoch ms
+  answers: Answers;
+  writingScores?: WritingScores; // missing in attempts recorded before writing rubrics
+  lookups?: string[]; // words looked up in the reading text; kept on this device only
+  studentName?: string; // the name in the file, for an attempt imported from another device
+  score: number;
+  totalPoints: number;
+  sections: SectionScore[];
+  timing?: ExamTiming; // exam mode only
+  shuffleSeed?: number; // the attempt's question and option order, see lib/shuffle.ts
+};
+
+export const HISTORY_STORAGE_KEY = "history";
+
+// Oldest attempts are dropped beyond this, to stay well inside the local storage quota.
+const MAX_ATTEMPTS = 200;
+
+export function newAttemptId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Appends a finished attempt to the history (oldest first). */
+export function recordAttempt(record: AttemptRecord) {
+  const history = readJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY) ?? [];
+  writeJSON(HISTORY_STORAGE_KEY, [...history, record].slice(-MAX_ATTEMPTS));
+}
+
+/** Rescores a recorded attempt, e.g. after a teacher or parent has scored the writing. */
+export function updateAttempt(id: string, patch: Partial<Pick<AttemptRecord, "writingScores" | "score" | "totalPoints" | "sections">>) {
+  const history = readJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY) ?? [];
+  writeJSON(HISTORY_STORAGE_KEY, history.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+}
+
+/** Adds an attempt from a file, replacing one with the same id, and keeps the history in date order. */
+export function importAttempt(record: AttemptRecord) {
+  const history = (readJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY) ?? []).filter((a) => a.id !== record.id);
+  const sorted = [...history, record].sort((a, b) => a.finishedAt - b.finishedAt);
+  writeJSON(HISTORY_STORAGE_KEY, sorted.slice(-MAX_ATTEMPTS));
+}
+
+export function deleteAttempt(id: string) {
+  const history = readJSON<AttemptRecord[]>(HISTORY_STORAGE_KEY) ?? [];
+  writeJSON(HISTORY_STORAGE_KEY, history.filter((a) => a.id !== id));
+}
@@ -0,0 +1,553 @@
+/** -----------------------------
+ *  English UI Strings
+ *  ----------------------------- */
+// The source of truth for UI chrome. Test content (texts, prompts, options) is not translated here.
+export const en = {
+  common: {
+    backToPractice: "Back to practice",
+    notAnswered: "Not answered",
+    none: "—",
+  },
+  locale: {
+    label: "Language",
+  },
+  app: {
+    choosePracticeTest: "Choose practice test",
+    authoredGroup: "Tests made on this device",
+    finishBeforeSwitching: "Finish the test before switching tests.",
+    intro: "Read the text, take the test, then see your score at the end.",
+    progress: (percent: number) => `Progress: ${percent}%`,
+    progressLabel: "Test progress",
+    answered: (done: number, total: number) => `${done} of ${total} questions answered.`,
+    footer: "Built for practice. Tip: clear, correct sentences beat long, complicated ones.",
+  },
+  nav: {
+    reading: "Reading",
+    test: "Test",
+    results: "Results",
+    history: "History",
+    review: "Word review",
+    build: "Build my own practice",
+    adaptive: "Adaptive practice",
+    testEditor: "Test editor",
+    teacher: "Class overview",
+    profiles: "Profiles",
+    reset: "Reset",
+    finishToGoBack: "Finish the test to go back to Reading.",
+    finishToViewResults: "Finish the test to view results.",
+    resumeFirst: "Resume the saved attempt or start fresh first.",
+    label: "Practice",
+    steps: "Test steps",
+  },
+  resume: {
+    title: "Resume where you left off?",
+    savedOn: (date: string, finished: boolean) =>
+      `You have a saved attempt on this test from ${date}${finished ? " (finished)" : ""}.`,
+    resume: "Resume",
+    startFresh: "Start fresh",
+  },
+  glossary: {
+    hint: "Tap a word you don't know to see it in Norwegian.",
+    notFound: "Not in the word list",
+  },
+  shuffle: {
+    label: "Mix up the order of questions and answer options",
+    hint: "Each attempt gets its own order, so you learn the words rather than the letters.",
+    locked: "This attempt already has its own order.",
+  },
+  reading: {
+    tip: "Tip: Read once for meaning, then again to find details.",
+    start: "Start the test",
+    startTimed: "Start the timed test",
+  },
+  finish: {
+    finishTitle: "Finish",
+    finishedTitle: "Finished",
+    finishedReadOnly: "This attempt is finished, so its answers can no longer be changed. Start over to try the test again.",
+    viewResults: "View results",
+    nextTitle: "Next section",
+    resultsAfterFinish: "Results will be available only after you finish the test.",
+    unansweredWillScoreZero: (count: number) =>
+      count === 1
+        ? "1 question is still unanswered and will score 0."
+        : `${count} questions are still unanswered and will score 0.`,
+    stillUnanswered: (count: number) =>
+      count === 1 ? "1 question is still unanswered." : `${count} questions are still unanswered.`,
+    finished: (score: string, total: number, autoSubmitted: boolean): string =>
+      autoSubmitted
+        ? `Time is up, so the test was handed in. You scored ${score} of ${total}.`
+        : `Test finished. You scored ${score} of ${total}.`,
+    finishAndView: "Finish test and view results",
+    answerAllToFinish: "Answer all questions to finish",
+    noComingBack: "When you move on, you can't come back to this section.",
+    nextSection: "Next section",
+    backToTest: "Back to test",
+    startOver: "Start over",
+  },
+  exam: {
+    title: "Exam mode",
+    enable: "Practise like the real test: timed, and no going back to the text.",
+    limitType: "Time limit type",
+    limitTotal: "Time limit for the whole test",
+    limitSection: "Time limit for each section",
+    minutes: "minutes",
+    minutesPerSection: "minutes per section",
+    sectionOf: (index: number, count: number, minutes: number) => `Section ${index} of ${count} • ${minutes} min`,
+    timeLeft: "Time left",
+    lessThan: (minutes: number) => `Less than ${minutes} minute${minutes === 1 ? "" : "s"} left`,
+    autoSubmitWarning: "Your answers are submitted automatically when time runs out.",
+  },
+  items: {
+    answerPlaceholder: "Write your answer here…",
+    showNorwegian: "Show in Norwegian",
+    hideNorwegian: "Hide Norwegian",
+    selfCheckTitle: "Check your own writing",
+    selfCheckIntro: "Score your text on each point. A teacher or parent can change the scores on Results.",
+    sectionFooter: "Answer all questions, then scroll down and click",
+    finishTest: "Finish test",
+    gap: (n: number) => `Gap ${n}`,
+  },
+  wordOrder: {
+    yourSentence: "Your sentence",
+    wordsLeft: "Words left to place",
+    emptyHint: "Tap the words below to build the sentence.",
+    placedTile: (word: string, pos: number, count: number) =>
+      `${word}, word ${pos} of ${count}. Press to remove, arrow keys to move.`,
+    bankTile: (word: string) => `${word}. Press to add to the sentence.`,
+    preview: "Your sentence:",
+    clear: "Clear",
+  },
+  listening: {
+    noSpeech: "This browser can't play the dialogue. Try another browser; the transcript is shown on the Results tab.",
+    stop: "Stop",
+    play: "Play dialogue",
+    playAgain: "Play again",
+    playing: "Playing…",
+    playsLeft: (left: number, max: number) => `${left} of ${max} plays left`,
+    noPlaysLeft: "No plays left. Answer from what you heard.",
+  },
+  results: {
+    yourScore: "Your Score",
+    student: (name: string) => `Student: ${name}`,
+    autoScored: "Auto-scored",
+    writing: "Writing",
+    unscoredWriting: (count: number): string =>
+      count === 1
+        ? "1 writing task isn't scored yet, so it isn't part of the total."
+        : `${count} writing tasks aren't scored yet, so they aren't part of the total.`,
+    writingIntro: "Each text is scored on the points below.",
+    scoredBy: {
+      student: "Self-assessed",
+      reviewer: "Scored by a teacher or parent",
+      none: "Not scored yet",
+    },
+    reviewStart: "Score as teacher or parent",
+    reviewDone: "Done scoring",
+    reviewIntro: "Your scores replace the student's self-assessment and update the total.",
+    timeUsed: (used: string, limit: string) => `Time used: ${used} of ${limit}`,
+    autoSubmitted: "Time ran out, so the test was submitted automatically.",
+    breakdownTitle: "Where your points came from",
+    bySection: "By task",
+    bySkill: "By skill",
+    areaScore: (name: string, score: string, max: number, percent: number) => `${name}: ${score} of ${max} (${percent}%)`,
+    improveTitle: "How to improve next time",
+    allGood: "No weak spots this time. Try a harder test or the adaptive practice to stretch yourself.",
+    advicePercent: (percent: number) => `(${percent}%)`,
+    sectionAdvice:
+      "Go through these questions in the answer review, read the explanations, then try similar questions again.",
+    // English examples go in [brackets], so they can be marked as English in every language.
+    skillAdvice: {
+      "reading-detail":
+        "Read the text again and underline names, times and reasons. Check each answer against the sentence it comes from.",
+      "reading-gist": "Before choosing a title, say in one sentence what the whole text is about.",
+      "vocab-in-context":
+        "Read the whole sentence around the gap: the words before and after tell you which word fits. Practise missed words in Word review.",
+      "present-simple": "Use the present simple for habits and facts. With [he], [she] and [it] the verb takes [-s]: [she goes], [he finds].",
+      "past-simple":
+        "Look for time words like [yesterday] and [last Monday]: they need the past simple ([went], [read], [had]).",
+      "future-will": "Use [will] + verb for plans and predictions about tomorrow or next week: [will be], [will go].",
+      "word-order": "English sentences follow subject – verb – object: start with who, then what they do.",
+      listening: "Listen for the key words the first time, and for details the second time.",
+      writing: "Plan your sentences first, then check capital letters, full stops and verb tenses.",
+    } as Record<string, string>,
+    hintsTitle: "Short Answer Hints",
+    hintsIntro: "Gentle hints based on keywords and an automatic check of your sentences (not strict grading).",
+    onTrack: "Looks on track",
+    checkDetails: "Check details",
+    transcript: "Transcript",
+    tryIdeas: (ideas: string) => `Tip: Try including one of these ideas: ${ideas}`,
+    lookupsTitle: "Words you looked up",
+    lookupsIntro: "Practise these words: they were new to you in this text.",
+    exportTitle: "Export / Share",
+    exportIntro: "Copy your answers as text, or download a printable report, a JSON file that can be imported again, or a CSV for a spreadsheet.",
+  },
+  rubric: {
+    total: (score: number, max: number) => `Total: ${score} / ${max}`,
+    pointsOf: (label: string, points: number, max: number) => `${label}: ${points} of ${max}`,
+  },
+  exports: {
+    report: "Printable report",
+    json: "Download JSON",
+    csv: "Download CSV",
+    share: "Share link",
+    linkCopied: "Link copied. Anyone with the link can see this attempt, read-only.",
+    copyLink: "Copy this link. Anyone with it can see this attempt, read-only.",
+    shareUnsupported: "This browser can't make share links. Download the JSON file and send that instead.",
+  },
+  teacher: {
+    title: "Class overview",
+    intro: "Load the attempt files your students downloaded from Results to see the class at a glance.",
+    dropHere: "Drop attempt files (.json) here",
+    orChoose: "or choose them:",
+    loaded: (attempts: number, tests: number): string =>
+      attempts === 0
+        ? "No attempts loaded yet."
+        : `${attempts} ${attempts === 1 ? "attempt" : "attempts"} loaded, ${tests} ${tests === 1 ? "test" : "tests"}.`,
+    clear: "Clear all",
+    privacy: "The files are only read in this browser tab. Nothing is uploaded or saved.",
+    chooseTest: "Test",
+    testOption: (title: string, attempts: number) => `${title} (${attempts})`,
+    gridTitle: "Scores per student",
+    student: "Student",
+    finished: "Finished",
+    total: "Total",
+    classAverage: "Class average",
+    itemsTitle: "Item analysis",
+    itemsIntro:
+      "How each question went across the class, in the order the test was written. For multiple choice, the options show how often each was chosen.",
+    itemTypes: {
+      mcq: "Multiple choice",
+      text: "Short text",
+      order: "Word order",
+      cloze: "Gap fill",
+      listening: "Listening",
+      short: "Short answer",
+      writing: "Writing",
+    } as Record<string, string>,
+    answered: (n: number, of: number) => `Answered: ${n} of ${of}`,
+    correct: (n: number, of: number, pct: number) => `Full marks: ${n} of ${of} (${pct}%)`,
+    average: (points: string, max: number) => `Average: ${points} / ${max}`,
+    writingScored: (n: number, of: number) => `Scored with the rubric: ${n} of ${of}`,
+    rightAnswer: "right answer",
+    chosenBy: (n: number, of: number) => `${n} of ${of}`,
+    keywordHits: (n: number, of: number, pct: number) => `Used a keyword hint: ${n} of ${of} answers (${pct}%)`,
+    noKeywords: "This question has no keyword hints.",
+  },
+  shared: {
+    title: "Shared attempt",
+    intro: "A finished attempt someone shared with you. It lives in the link and isn't saved on this device.",
+    openApp: "Open the practice app",
+    opening: "Opening the shared attempt…",
+    badge: "Shared • read-only",
+    byStudent: (name: string) => `Shared attempt by ${name}`,
+    finished: (date: string) => `finished ${date}`,
+    scoreWhenShared: (score: string, total: number) => `score when shared: ${score} / ${total}`,
+    readOnly: "You can look through the answers and scores, but nothing here can be changed.",
+    testChanged:
+      "This test has been updated since the link was made. Answers to questions that changed or were removed may be missing, and the score below can differ from the score when shared.",
+    testMissing:
+      "This test isn't part of this version of the app, so the answers can't be shown. The score when shared is in the banner above.",
+    problems: {
+      empty: "This link has no attempt in it. Ask for the link again and make sure all of it is copied.",
+      damaged: "This link is incomplete or damaged, so it can't be opened. It was probably cut off when it was copied: ask for it again.",
+      "newer-version": "This link was made with a newer version of the app. Reload the page to update the app, then open the link again.",
+    },
+  },
+  report: {
+    intro: "A clean page for printing. Only the report below is printed.",
+    nameLabel: "Student name",
+    namePlaceholder: "The name to show on reports and exports",
+    print: "Print or save as PDF",
+    printHint: "To keep a PDF, choose “Save as PDF” as the printer in the print dialogue.",
+    notFound: "This attempt isn't on this device. Open the report from Results or History.",
+    testGone: "This test is no longer available, so the report can't be shown.",
+    title: "English practice report",
+    student: "Student",
+    test: "Test",
+    finished: "Finished",
+    score: "Score",
+    time: "Time",
+    sectionsTitle: "Score per task",
+    section: "Task",
+    points: "Points",
+    answersTitle: "Answers",
+    notScored: "Not scored",
+    notScoredYet: "Not scored yet",
+  },
+  feedback: {
+    title: "Automatic check",
+    note: "Found offline from your text. It can miss mistakes or mark names and rare words, so treat it as hints.",
+    noIssues: "No problems found with sentences, punctuation, tense or spelling.",
+    spellingMark: "Check the spelling",
+    styleMark: "Check the capital letter or end mark",
+    count: (found: number, min: number, max: number): string =>
+      `You wrote ${found} ${found === 1 ? "sentence" : "sentences"}; the task asks for ${min === max ? min : `${min}–${max}`}.`,
+    capital: (n: number) => `Sentence ${n} should start with a capital letter.`,
+    endMark: (n: number) => `Sentence ${n} should end with a full stop, question mark or exclamation mark.`,
+    tense: {
+      past: "The task asks for the past tense, but no past verbs were found (went, played, was).",
+      present: "The task asks for the present tense, but the verbs look past or future (use play, like, is).",
+      future: "The task asks for the future, but there is no will or going to.",
+    },
+    spelling: (word: string, suggestion: string | null): string =>
+      suggestion ? `Check the spelling of “${word}”. Did you mean “${suggestion}”?` : `Check the spelling of “${word}”.`,
+  },
+  review: {
+    title: "Answer Review",
+    status: {
+      correct: "Correct",
+      partial: "Partly correct",
+      incorrect: "Incorrect",
+      unanswered: "Not answered",
+    },
+    yourAnswer: "Your answer:",
+    acceptedAnswers: "Accepted answers:",
+    correctAnswer: "Correct answer:",
+    why: "Why:",
+    spelling: (fixes: string) => `Check spelling: ${fixes}.`,
+    wordOrder: "Check the word order.",
+    almostOrder: "Almost: one word is in the wrong place.",
+    missing: (words: string) => `Missing: ${words}.`,
+    notNeeded: (words: string) => `Not needed: ${words}.`,
+  },
+  deck: {
+    title: "Word review",
+    intro: "Words you missed in vocabulary tasks or looked up in a text come back here, just before you forget them.",
+    empty: "Your deck is empty. Finish a test: missed vocabulary words and words you looked up are added here.",
+    words: (n: number) => `Words: ${n}`,
+    dueNow: (n: number) => `Due now: ${n}`,
+    flashcards: "Flashcards",
+    multipleChoice: "Multiple choice",
+    drillType: "Drill type",
+    start: (n: number) => `Review ${n} word${n === 1 ? "" : "s"}`,
+    nothingDue: (date: string) => `Nothing to review right now. Next review: ${date}.`,
+    showMeaning: "Show meaning",
+    noMeaning: "No translation in the word list. Do you remember what it means?",
+    whatMeans: "What does it mean in Norwegian?",
+    rateTitle: "How well did you know it?",
+    again: "Again",
+    hard: "Hard",
+    good: "Good",
+    easy: "Easy",
+    right: "Right!",
+    wrongWas: (gloss: string) => `Not quite. It means: ${gloss}`,
+    next: "Next",
+    stop: "Stop",
+    progress: (done: number, total: number) => `${done} of ${total}`,
+    finished: (n: number) => `Done! You reviewed ${n} word${n === 1 ? "" : "s"}.`,
+    backToDeck: "Back to the deck",
+    listTitle: "All words",
+    nextReview: (date: string) => `next ${date}`,
+    remove: "Remove",
+  },
+  builder: {
+    title: "Build my own practice",
+    intro: "Choose the skills you want to work on and how long the practice should be. Questions are picked from all the tests.",
+    skillsTitle: "Skills",
+    lengthTitle: "Length",
+    questions: (n: number) => `${n} questions`,
+    available: (n: number) => (n === 1 ? "1 matching question" : `${n} matching questions`),
+    readingNote: "Reading questions come together with the text they are about.",
+    chooseSkill: "Choose at least one skill to build a practice.",
+    build: "Build and start",
+    noTaggedItems: "None of the tests have skill tags yet, so there is nothing to build from.",
+  },
+  adaptive: {
+    title: "Adaptive practice",
+    intro:
+      "Questions get harder when you answer right and easier when you miss. At the end you get an estimate of your level (A1–B2).",
+    empty: "None of the tests have questions with a level yet, so there is nothing to practise here.",
+    start: "Start",
+    stop: "Stop",
+    questionOf: (n: number, max: number) => `Question ${n} of up to ${max}`,
+    level: (level: string) => `Level ${level}`,
+    readText: "Read the text",
+    check: "Check answer",
+    answerToCheck: "Answer the question to check it.",
+    next: "Next question",
+    seeLevel: "See my level",
+    resultTitle: "Your estimated level",
+    estimate: (level: string, bound: "above" | "below" | null) =>
+      bound === "above" ? `${level} or above` : bound === "below" ? `${level} or below` : level,
+    boundNote: (bound: "above" | "below"): string =>
+      bound === "above"
+        ? "There are no harder questions here yet, so you may well be above this level."
+        : "There are no easier questions here yet, so keep practising at this level.",
+    basedOn: (n: number) =>
+      `Based on ${n} question${n === 1 ? "" : "s"}: the highest level where you got at least half right.`,
+    byLevel: (level: string, right: number, tried: number) => `${level}: ${right} of ${tried} right`,
+    again: "Start again",
+  },
+  author: {
+    title: "Test editor",
+    intro: "Write your own practice test, check it in the preview, then save it or share it as a file.",
+    startFrom: "Start from",
+    blankTest: "A blank test",
+    copyBuiltIn: "Copy a built-in test",
+    editAuthored: "Edit a test made on this device",
+    open: "Open",
+    importLabel: "Or import a test file",
+    notJson: (file: string) => `${file} is not a JSON file.`,
+    cantOpen: "That file can't be opened as a test:",
+    imported: (file: string) => `Imported ${file}. Save it to add it to the test picker.`,
+    copyOf: (title: string) => `Copy of ${title}`,
+    toFix: (n: number) => (n === 1 ? "1 thing to fix before saving." : `${n} things to fix before saving.`),
+    ready: "Ready to save.",
+    save: "Save to this device",
+    saved: "Saved. It is in the test picker on this device.",
+    exportFile: "Export file",
+    delete: "Delete",
+    confirmDelete: (title: string) => `Delete "${title}" from this device?`,
+    deleted: "Deleted.",
+    preview: "Preview",
+    clearPreview: "Clear preview answers",
+    readingTitlePlaceholder: "Reading title",
+    readingTextPlaceholder: "The reading text appears here.",
+    detailsTitle: "Test details",
+    testTitle: "Title",
+    testMinutes: "Minutes for the whole test (exam)",
+    readingTitle: "Reading title",
+    readingText: "Reading text",
+    glossary: "Glossary overrides",
+    glossaryHint: "(one per line: word = Norwegian translation)",
+    onePerLine: "(one per line)",
+    section: (n: number) => `Section ${n}`,
+    newSectionName: (n: number) => `Task ${n}`,
+    sectionName: "Name",
+    id: "Id",
+    sectionMinutes: "Minutes (exam)",
+    addSection: "Add section",
+    removeSection: "Remove section",
+    add: "Add:",
+    up: "Up",
+    down: "Down",
+    remove: "Remove",
+    itemTypes: {
+      mcq: "Multiple choice",
+      text: "Short text (auto-graded)",
+      order: "Word order",
+      cloze: "Cloze passage",
+      listening: "Listening",
+      short: "Short answer (hints only)",
+      writing: "Writing (scored with a rubric)",
+    } as Record<string, string>,
+    type: "Type",
+    prompt: "Prompt",
+    guidance: "Guidance (optional)",
+    guidanceNb: "Guidance in Norwegian (optional, shown on demand)",
+    explanation: "Explanation shown in the answer review (optional)",
+    vocabWord: "Vocabulary word (optional, added to the student's review deck when missed)",
+    skills: "Skill tags (optional, e.g. past-simple, for the practice builder)",
+    level: "Level (optional, for adaptive practice)",
+    noLevel: "No level",
+    acceptedAnswers: "Accepted answers",
+    keywords: "Keywords for hints",
+    options: "Options (select the correct one)",
+    option: (letter: string) => `Option ${letter}`,
+    optionCorrect: (letter: string) => `Option ${letter} is correct`,
+    orderSentence: "Sentence in the right order (without the end mark)",
+    orderTiles: "Tiles as first shown (the same words, scrambled)",
+    scramble: "Scramble",
+    endMark: "End mark",
+    passage: "Passage (mark each gap as {{gapId}})",
+    gap: (n: number) => `Gap ${n}`,
+    gapKind: (n: number) => `Gap ${n} kind`,
+    gapText: "Type the word",
+    gapSelect: "Pick from a list",
+    removeGap: "Remove gap",
+    choices: "Choices",
+    correctChoice: "Correct choice",
+    choose: "Choose…",
+    addGap: "Add gap",
+    dialogue: "Dialogue (read aloud, one voice per speaker)",
+    lineSpeaker: (n: number) => `Line ${n} speaker`,
+    lineText: (n: number) => `Line ${n} text`,
+    speaker: "Speaker",
+    whatTheySay: "What they say",
+    addLine: "Add line",
+    maxPlays: "Plays allowed",
+    recording: "Recording (optional, path under /public)",
+    defaultRubric: (criteria: string) => `Scored with the default rubric: ${criteria}.`,
+    customiseRubric: "Customise rubric",
+    rubric: "Rubric (each criterion is scored from 0 to its maximum)",
+    criterion: (n: number) => `Criterion ${n}`,
+    criterionPlaceholder: "Criterion",
+    criterionNb: (n: number) => `Criterion ${n} in Norwegian`,
+    criterionNbPlaceholder: "In Norwegian (optional)",
+    criterionMax: (n: number) => `Criterion ${n} maximum points`,
+    addCriterion: "Add criterion",
+    useDefaultRubric: "Use the default rubric",
+  },
+  skills: {
+    "reading-detail": "Reading for detail",
+    "reading-gist": "Reading for the main idea",
+    "vocab-in-context": "Vocabulary in context",
+    "present-simple": "Present simple",
+    "past-simple": "Past simple",
+    "future-will": "Future with will",
+    "word-order": "Word order",
+    listening: "Listening",
+    writing: "Writing",
+  } as Record<string, string>,
+  offline: {
+    updateAvailable: "A new version of the app is available.",
+    updateFailed: "The new version couldn't be downloaded. Check the connection and try again.",
+    reload: "Reload",
+    updating: "Updating…",
+    later: "Later",
+  },
+  profiles: {
+    title: "Profiles",
+    intro: "Each student on this device keeps their own attempts, history and settings.",
+    whoTitle: "Who is practising?",
+    whoIntro: "Choose your profile to carry on where you left off.",
+    firstTitle: "Create your profile",
+    firstNote: "Attempts and history already saved on this device will belong to this first profile.",
+    addTitle: "Add a profile",
+    addAnother: "Add another student",
+    name: "Name",
+    avatar: "Picture",
+    avatarOption: (avatar: string) => `Picture ${avatar}`,
+    pinOptional: "PIN (optional, 4 digits)",
+    pinHint: "A PIN keeps others on this device out of your profile. It isn't a password, so don't reuse one.",
+    hasPin: "PIN",
+    add: "Add profile",
+    enterPin: (name: string) => `Enter the PIN for ${name}`,
+    open: "Open",
+    cancel: "Cancel",
+    wrongPin: "That PIN isn't right. Try again.",
+    switch: "Switch student",
+    setPin: "Set a PIN (4 digits)",
+    changePin: "Change PIN (4 digits)",
+    savePin: "Save PIN",
+    removePin: "Remove PIN",
+    pinSaved: "PIN saved.",
+    pinRemoved: "PIN removed.",
+    delete: "Delete profile",
+    confirmDelete: (name: string) => `Delete ${name} and all of their attempts and history on this device?`,
+  },
+  history: {
+    title: "History",
+    intro: "Every finished attempt on this device, and how your scores change over time.",
+    empty: "No finished attempts yet. Finish a test and it will show up here.",
+    backToHistory: "Back to history",
+    finishedReadOnly: (date: string) => `Finished ${date} • read-only`,
+    testGone: "This test is no longer available, so only the saved score can be shown:",
+    attempts: (n: number) => `Attempts: ${n}`,
+    latest: (percent: number) => `Latest: ${percent}%`,
+    best: (percent: number) => `Best: ${percent}%`,
+    trendLabel: (title: string) => `Score trend for ${title}, in percent`,
+    open: "Open",
+    delete: "Delete",
+    importLabel: "Import an attempt file (.json)",
+    imported: (title: string) => `Imported an attempt of “${title}”.`,
+    importProblems: {
+      "not-json": "That file isn't a JSON file.",
+      "not-attempt": "That file isn't an attempt exported from this app.",
+      "newer-version": "That file comes from a newer version of the app. Update the app and try again.",
+      "invalid-test": "The test inside that file is damaged, so the attempt can't be opened.",
+    },
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,32 @@
+import { en, type Messages } from "@/lib/i18n/en";
+import { nb } from "@/lib/i18n/nb";
+
+/** -----------------------------
+ *  Localisation
+ *  ----------------------------- */
+export type Locale = "en" | "nb";
+export type { Messages };
+
+export const LOCALES: { locale: Locale; label: string; htmlLang: string; dateLocale: string }[] = [
+  { locale: "nb", label: "Norsk", htmlLang: "nb", dateLocale: "nb-NO" },
+  { locale: "en", label: "English", htmlLang: "en", dateLocale: "en-GB" },
+];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembered per device, like the last opened test.
+export const LOCALE_STORAGE_KEY = "locale";
+
+const MESSAGES: Record<Locale, Messages> = { en, nb };
+
+export function isLocale(v: unknown): v is Locale {
+  return v === "en" || v === "nb";
+}
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+export function localeInfo(locale: Locale) {
+  return LOCALES.find((l) => l.locale === locale) ?? LOCALES[0];
+}
@@ -0,0 +1,549 @@
+import type { Messages } from "@/lib/i18n/en";
+
+/** -----------------------------
+ *  Norwegian (Bokmål) UI Strings
+ *  ----------------------------- */
+export const nb: Messages = {
+  common: {
+    backToPractice: "Tilbake til øving",
+    notAnswered: "Ikke svart",
+    none: "—",
+  },
+  locale: {
+    label: "Språk",
+  },
+  app: {
+    choosePracticeTest: "Velg øvingsprøve",
+    authoredGroup: "Prøver laget på denne enheten",
+    finishBeforeSwitching: "Lever prøven før du bytter prøve.",
+    intro: "Les teksten, ta prøven, og se poengsummen din til slutt.",
+    progress: (percent) => `Fremdrift: ${percent} %`,
+    progressLabel: "Fremdrift i prøven",
+    answered: (done, total) => `${done} av ${total} spørsmål besvart.`,
+    footer: "Laget for øving. Tips: klare, riktige setninger er bedre enn lange og kompliserte.",
+  },
+  nav: {
+    reading: "Lesing",
+    test: "Prøve",
+    results: "Resultater",
+    history: "Historikk",
+    review: "Repetisjon av ord",
+    build: "Lag din egen øving",
+    adaptive: "Tilpasset øving",
+    testEditor: "Prøveredigering",
+    teacher: "Klasseoversikt",
+    profiles: "Profiler",
+    reset: "Nullstill",
+    finishToGoBack: "Lever prøven for å gå tilbake til lesingen.",
+    finishToViewResults: "Lever prøven for å se resultatene.",
+    resumeFirst: "Fortsett det lagrede forsøket eller begynn på nytt først.",
+    label: "Øving",
+    steps: "Stegene i prøven",
+  },
+  resume: {
+    title: "Vil du fortsette der du slapp?",
+    savedOn: (date, finished) =>
+      `Du har et lagret forsøk på denne prøven fra ${date}${finished ? " (levert)" : ""}.`,
+    resume: "Fortsett",
+    startFresh: "Begynn på nytt",
+  },
+  glossary: {
+    hint: "Trykk på et ord du ikke kan, for å se det på norsk.",
+    notFound: "Ikke i ordlisten",
+  },
+  shuffle: {
+    label: "Bland rekkefølgen på spørsmål og svaralternativer",
+    hint: "Hvert forsøk får sin egen rekkefølge, så du lærer ordene og ikke bokstavene.",
+    locked: "Dette forsøket har allerede sin egen rekkefølge.",
+  },
+  reading: {
+    tip: "Tips: Les én gang for å forstå innholdet, og én gang til for å finne detaljer.",
+    start: "Start prøven",
+    startTimed: "Start prøven med tidtaking",
+  },
+  finish: {
+    finishTitle: "Lever",
+    finishedTitle: "Levert",
+    finishedReadOnly: "Dette forsøket er levert, så svarene kan ikke endres lenger. Begynn på nytt for å ta prøven igjen.",
+    viewResults: "Se resultatene",
+    nextTitle: "Neste del",
+    resultsAfterFinish: "Du ser resultatene først når du har levert prøven.",
+    unansweredWillScoreZero: (count) =>
+      count === 1
+        ? "1 spørsmål er ikke besvart og gir 0 poeng."
+        : `${count} spørsmål er ikke besvart og gir 0 poeng.`,
+    stillUnanswered: (count) =>
+      count === 1 ? "1 spørsmål er ikke besvart ennå." : `${count} spørsmål er ikke besvart ennå.`,
+    finished: (score, total, autoSubmitted) =>
+      autoSubmitted
+        ? `Tiden er ute, så prøven ble levert. Du fikk ${score} av ${total} poeng.`
+        : `Prøven er levert. Du fikk ${score} av ${total} poeng.`,
+    finishAndView: "Lever prøven og se resultatene",
+    answerAllToFinish: "Svar på alle spørsmålene for å levere",
+    noComingBack: "Når du går videre, kan du ikke komme tilbake til denne delen.",
+    nextSection: "Neste del",
+    backToTest: "Tilbake til prøven",
+    startOver: "Begynn på nytt",
+  },
+  exam: {
+    title: "Eksamensmodus",
+    enable: "Øv som på den ekte prøven: på tid, og uten å gå tilbake til teksten.",
+    limitType: "Type tidsgrense",
+    limitTotal: "Tidsgrense for hele prøven",
+    limitSection: "Tidsgrense for hver del",
+    minutes: "minutter",
+    minutesPerSection: "minutter per del",
+    sectionOf: (index, count, minutes) => `Del ${index} av ${count} • ${minutes} min`,
+    timeLeft: "Tid igjen",
+    lessThan: (minutes) => `Mindre enn ${minutes} minutt${minutes === 1 ? "" : "er"} igjen`,
+    autoSubmitWarning: "Svarene dine leveres automatisk når tiden er ute.",
+  },
+  items: {
+    answerPlaceholder: "Skriv svaret ditt her…",
+    showNorwegian: "Vis på norsk",
+    hideNorwegian: "Skjul norsk",
+    selfCheckTitle: "Vurder din egen tekst",
+    selfCheckIntro: "Gi teksten din poeng for hvert punkt. En lærer eller forelder kan endre poengene under Resultater.",
+    sectionFooter: "Svar på alle spørsmålene, bla ned og trykk på",
+    finishTest: "Lever prøven",
+    gap: (n) => `Luke ${n}`,
+  },
+  wordOrder: {
+    yourSentence: "Setningen din",
+    wordsLeft: "Ord som ikke er plassert",
+    emptyHint: "Trykk på ordene under for å bygge setningen.",
+    placedTile: (word, pos, count) =>
+      `${word}, ord ${pos} av ${count}. Trykk for å fjerne, bruk piltastene for å flytte.`,
+    bankTile: (word) => `${word}. Trykk for å legge til i setningen.`,
+    preview: "Setningen din:",
+    clear: "Tøm",
+  },
+  listening: {
+    noSpeech: "Denne nettleseren kan ikke spille av dialogen. Prøv en annen nettleser; teksten vises under Resultater.",
+    stop: "Stopp",
+    play: "Spill av dialogen",
+    playAgain: "Spill av igjen",
+    playing: "Spiller av…",
+    playsLeft: (left, max) => `${left} av ${max} avspillinger igjen`,
+    noPlaysLeft: "Ingen avspillinger igjen. Svar ut fra det du hørte.",
+  },
+  results: {
+    yourScore: "Poengsummen din",
+    student: (name) => `Elev: ${name}`,
+    autoScored: "Rettet automatisk",
+    writing: "Skriving",
+    unscoredWriting: (count) =>
+      count === 1
+        ? "1 skriveoppgave er ikke vurdert ennå, så den er ikke med i summen."
+        : `${count} skriveoppgaver er ikke vurdert ennå, så de er ikke med i summen.`,
+    writingIntro: "Hver tekst får poeng for punktene under.",
+    scoredBy: {
+      student: "Egenvurdert",
+      reviewer: "Vurdert av lærer eller forelder",
+      none: "Ikke vurdert ennå",
+    },
+    reviewStart: "Vurder som lærer eller forelder",
+    reviewDone: "Ferdig med vurderingen",
+    reviewIntro: "Poengene dine erstatter elevens egenvurdering og oppdaterer summen.",
+    timeUsed: (used, limit) => `Tid brukt: ${used} av ${limit}`,
+    autoSubmitted: "Tiden gikk ut, så prøven ble levert automatisk.",
+    breakdownTitle: "Hvor poengene dine kom fra",
+    bySection: "Per oppgave",
+    bySkill: "Per ferdighet",
+    areaScore: (name, score, max, percent) => `${name}: ${score} av ${max} (${percent} %)`,
+    improveTitle: "Slik kan du bli bedre til neste gang",
+    allGood: "Ingen svake punkter denne gangen. Prøv en vanskeligere prøve eller tilpasset øving for å strekke deg.",
+    advicePercent: (percent) => `(${percent} %)`,
+    sectionAdvice:
+      "Gå gjennom disse spørsmålene i svargjennomgangen, les forklaringene, og prøv lignende spørsmål igjen.",
+    skillAdvice: {
+      "reading-detail":
+        "Les teksten på nytt og strek under navn, tidspunkter og grunner. Sjekk hvert svar mot setningen det kommer fra.",
+      "reading-gist": "Før du velger tittel: si med én setning hva hele teksten handler om.",
+      "vocab-in-context":
+        "Les hele setningen rundt luken: ordene før og etter viser hvilket ord som passer. Øv på ordene du bommet på, i Repetisjon av ord.",
+      "present-simple": "Bruk presens om vaner og fakta. Med [he], [she] og [it] får verbet [-s]: [she goes], [he finds].",
+      "past-simple": "Se etter tidsord som [yesterday] og [last Monday]: de krever preteritum ([went], [read], [had]).",
+      "future-will": "Bruk [will] + verb om planer og spådommer om i morgen eller neste uke: [will be], [will go].",
+      "word-order": "Engelske setninger følger subjekt – verb – objekt: begynn med hvem, og så hva de gjør.",
+      listening: "Lytt etter nøkkelordene første gang, og etter detaljer andre gang.",
+      writing: "Planlegg setningene først, og sjekk så store bokstaver, punktum og verbtider.",
+    },
+    hintsTitle: "Tips til kortsvar",
+    hintsIntro: "Forsiktige tips basert på nøkkelord og en automatisk sjekk av setningene dine (ikke streng retting).",
+    onTrack: "Ser bra ut",
+    checkDetails: "Sjekk detaljene",
+    transcript: "Transkripsjon",
+    tryIdeas: (ideas) => `Tips: Prøv å ta med én av disse ideene: ${ideas}`,
+    lookupsTitle: "Ord du slo opp",
+    lookupsIntro: "Øv på disse ordene: de var nye for deg i denne teksten.",
+    exportTitle: "Eksporter / del",
+    exportIntro: "Kopier svarene som tekst, eller last ned en utskriftsvennlig rapport, en JSON-fil som kan importeres igjen, eller en CSV til regneark.",
+  },
+  rubric: {
+    total: (score, max) => `Sum: ${score} / ${max}`,
+    pointsOf: (label, points, max) => `${label}: ${points} av ${max}`,
+  },
+  exports: {
+    report: "Utskriftsvennlig rapport",
+    json: "Last ned JSON",
+    csv: "Last ned CSV",
+    share: "Del lenke",
+    linkCopied: "Lenken er kopiert. Alle som har lenken kan se dette forsøket, men ikke endre det.",
+    copyLink: "Kopier denne lenken. Alle som har den kan se dette forsøket, men ikke endre det.",
+    shareUnsupported: "Denne nettleseren kan ikke lage delingslenker. Last ned JSON-filen og send den i stedet.",
+  },
+  teacher: {
+    title: "Klasseoversikt",
+    intro: "Last inn filene elevene lastet ned fra Resultater, så får du oversikt over klassen.",
+    dropHere: "Slipp filer med forsøk (.json) her",
+    orChoose: "eller velg dem:",
+    loaded: (attempts, tests) =>
+      attempts === 0
+        ? "Ingen forsøk er lastet inn ennå."
+        : `${attempts} forsøk lastet inn, ${tests} ${tests === 1 ? "prøve" : "prøver"}.`,
+    clear: "Fjern alle",
+    privacy: "Filene leses bare i denne nettleserfanen. Ingenting blir lastet opp eller lagret.",
+    chooseTest: "Prøve",
+    testOption: (title, attempts) => `${title} (${attempts})`,
+    gridTitle: "Poeng per elev",
+    student: "Elev",
+    finished: "Levert",
+    total: "Sum",
+    classAverage: "Snitt i klassen",
+    itemsTitle: "Oppgaveanalyse",
+    itemsIntro:
+      "Hvordan hvert spørsmål gikk i klassen, i den rekkefølgen prøven ble skrevet. For flervalg viser alternativene hvor ofte hvert ble valgt.",
+    itemTypes: {
+      mcq: "Flervalg",
+      text: "Kort tekst",
+      order: "Ordstilling",
+      cloze: "Fyll inn",
+      listening: "Lytting",
+      short: "Kortsvar",
+      writing: "Skriving",
+    },
+    answered: (n, of) => `Svart: ${n} av ${of}`,
+    correct: (n, of, pct) => `Full pott: ${n} av ${of} (${pct} %)`,
+    average: (points, max) => `Snitt: ${points} / ${max}`,
+    writingScored: (n, of) => `Vurdert med kriteriene: ${n} av ${of}`,
+    rightAnswer: "riktig svar",
+    chosenBy: (n, of) => `${n} av ${of}`,
+    keywordHits: (n, of, pct) => `Brukte et nøkkelord: ${n} av ${of} svar (${pct} %)`,
+    noKeywords: "Dette spørsmålet har ingen nøkkelord.",
+  },
+  shared: {
+    title: "Delt forsøk",
+    intro: "Et fullført forsøk som noen har delt med deg. Det ligger i lenken og blir ikke lagret på denne enheten.",
+    openApp: "Åpne øvingsappen",
+    opening: "Åpner det delte forsøket …",
+    badge: "Delt • kun lesing",
+    byStudent: (name) => `Delt forsøk fra ${name}`,
+    finished: (date) => `levert ${date}`,
+    scoreWhenShared: (score, total) => `poeng da det ble delt: ${score} / ${total}`,
+    readOnly: "Du kan se gjennom svar og poeng, men ingenting her kan endres.",
+    testChanged:
+      "Prøven er endret siden lenken ble laget. Svar på spørsmål som er endret eller fjernet kan mangle, og poengene under kan avvike fra poengene da forsøket ble delt.",
+    testMissing:
+      "Denne prøven finnes ikke i denne versjonen av appen, så svarene kan ikke vises. Poengene da forsøket ble delt står i banneret over.",
+    problems: {
+      empty: "Denne lenken inneholder ikke noe forsøk. Be om lenken på nytt, og pass på at hele lenken blir kopiert.",
+      damaged: "Denne lenken er ufullstendig eller skadet, så den kan ikke åpnes. Den ble trolig kuttet da den ble kopiert: be om den på nytt.",
+      "newer-version": "Denne lenken er laget med en nyere versjon av appen. Last inn siden på nytt for å oppdatere appen, og åpne lenken igjen.",
+    },
+  },
+  report: {
+    intro: "En ryddig side for utskrift. Bare rapporten under blir skrevet ut.",
+    nameLabel: "Elevens navn",
+    namePlaceholder: "Navnet som skal stå på rapporter og eksporter",
+    print: "Skriv ut eller lagre som PDF",
+    printHint: "For å ta vare på en PDF velger du «Lagre som PDF» som skriver i utskriftsvinduet.",
+    notFound: "Dette forsøket finnes ikke på denne enheten. Åpne rapporten fra Resultater eller Historikk.",
+    testGone: "Denne prøven finnes ikke lenger, så rapporten kan ikke vises.",
+    title: "Rapport fra engelskøving",
+    student: "Elev",
+    test: "Prøve",
+    finished: "Levert",
+    score: "Poeng",
+    time: "Tid",
+    sectionsTitle: "Poeng per oppgave",
+    section: "Oppgave",
+    points: "Poeng",
+    answersTitle: "Svar",
+    notScored: "Gir ikke poeng",
+    notScoredYet: "Ikke vurdert ennå",
+  },
+  feedback: {
+    title: "Automatisk sjekk",
+    note: "Laget uten nett ut fra teksten din. Den kan overse feil eller markere navn og sjeldne ord, så bruk den som tips.",
+    noIssues: "Fant ingen problemer med setninger, tegnsetting, verbtid eller staving.",
+    spellingMark: "Sjekk stavingen",
+    styleMark: "Sjekk stor bokstav eller punktum",
+    count: (found, min, max) =>
+      `Du skrev ${found} ${found === 1 ? "setning" : "setninger"}; oppgaven ber om ${min === max ? min : `${min}–${max}`}.`,
+    capital: (n) => `Setning ${n} bør begynne med stor bokstav.`,
+    endMark: (n) => `Setning ${n} bør slutte med punktum, spørsmålstegn eller utropstegn.`,
+    tense: {
+      past: "Oppgaven ber om preteritum, men fant ingen verb i fortid (went, played, was).",
+      present: "Oppgaven ber om presens, men verbene ser ut til å stå i fortid eller fremtid (bruk play, like, is).",
+      future: "Oppgaven ber om fremtid, men det står ikke will eller going to.",
+    },
+    spelling: (word, suggestion) =>
+      suggestion ? `Sjekk stavingen av «${word}». Mente du «${suggestion}»?` : `Sjekk stavingen av «${word}».`,
+  },
+  review: {
+    title: "Gjennomgang av svar",
+    status: {
+      correct: "Riktig",
+      partial: "Delvis riktig",
+      incorrect: "Feil",
+      unanswered: "Ikke svart",
+    },
+    yourAnswer: "Ditt svar:",
+    acceptedAnswers: "Godkjente svar:",
+    correctAnswer: "Riktig svar:",
+    why: "Hvorfor:",
+    spelling: (fixes) => `Sjekk stavingen: ${fixes}.`,
+    wordOrder: "Sjekk rekkefølgen på ordene.",
+    almostOrder: "Nesten: ett ord står på feil plass.",
+    missing: (words) => `Mangler: ${words}.`,
+    notNeeded: (words) => `Trengs ikke: ${words}.`,
+  },
+  deck: {
+    title: "Repetisjon av ord",
+    intro: "Ord du bommet på i ordoppgaver eller slo opp i en tekst, kommer tilbake her – rett før du glemmer dem.",
+    empty: "Ordbunken din er tom. Lever en prøve: ord du bommet på og ord du slo opp, legges til her.",
+    words: (n) => `Ord: ${n}`,
+    dueNow: (n) => `Klar nå: ${n}`,
+    flashcards: "Ordkort",
+    multipleChoice: "Flervalg",
+    drillType: "Øvingstype",
+    start: (n) => `Repeter ${n} ord`,
+    nothingDue: (date) => `Ingenting å repetere akkurat nå. Neste repetisjon: ${date}.`,
+    showMeaning: "Vis betydning",
+    noMeaning: "Ingen oversettelse i ordlisten. Husker du hva det betyr?",
+    whatMeans: "Hva betyr det på norsk?",
+    rateTitle: "Hvor godt kunne du det?",
+    again: "Igjen",
+    hard: "Vanskelig",
+    good: "Bra",
+    easy: "Lett",
+    right: "Riktig!",
+    wrongWas: (gloss) => `Ikke helt. Det betyr: ${gloss}`,
+    next: "Neste",
+    stop: "Stopp",
+    progress: (done, total) => `${done} av ${total}`,
+    finished: (n) => `Ferdig! Du repeterte ${n} ord.`,
+    backToDeck: "Tilbake til ordbunken",
+    listTitle: "Alle ord",
+    nextReview: (date) => `neste ${date}`,
+    remove: "Fjern",
+  },
+  builder: {
+    title: "Lag din egen øving",
+    intro: "Velg ferdighetene du vil jobbe med og hvor lang øvingen skal være. Spørsmålene hentes fra alle prøvene.",
+    skillsTitle: "Ferdigheter",
+    lengthTitle: "Lengde",
+    questions: (n) => `${n} spørsmål`,
+    available: (n) => `${n} spørsmål passer`,
+    readingNote: "Lesespørsmålene kommer sammen med teksten de handler om.",
+    chooseSkill: "Velg minst én ferdighet for å lage en øving.",
+    build: "Lag og start",
+    noTaggedItems: "Ingen av prøvene har ferdighetsmerker ennå, så det er ingenting å lage øving av.",
+  },
+  adaptive: {
+    title: "Tilpasset øving",
+    intro:
+      "Spørsmålene blir vanskeligere når du svarer riktig, og lettere når du bommer. Til slutt får du et anslag over nivået ditt (A1–B2).",
+    empty: "Ingen av prøvene har spørsmål med nivå ennå, så det er ingenting å øve på her.",
+    start: "Start",
+    stop: "Stopp",
+    questionOf: (n, max) => `Spørsmål ${n} av opptil ${max}`,
+    level: (level) => `Nivå ${level}`,
+    readText: "Les teksten",
+    check: "Sjekk svaret",
+    answerToCheck: "Svar på spørsmålet for å sjekke det.",
+    next: "Neste spørsmål",
+    seeLevel: "Se nivået mitt",
+    resultTitle: "Ditt anslåtte nivå",
+    estimate: (level, bound) =>
+      bound === "above" ? `${level} eller høyere` : bound === "below" ? `${level} eller lavere` : level,
+    boundNote: (bound) =>
+      bound === "above"
+        ? "Det finnes ingen vanskeligere spørsmål her ennå, så du kan godt ligge over dette nivået."
+        : "Det finnes ingen lettere spørsmål her ennå, så fortsett å øve på dette nivået.",
+    basedOn: (n) => `Basert på ${n} spørsmål: det høyeste nivået der du fikk minst halvparten riktig.`,
+    byLevel: (level, right, tried) => `${level}: ${right} av ${tried} riktig`,
+    again: "Start på nytt",
+  },
+  author: {
+    title: "Prøveredigering",
+    intro: "Skriv din egen øveprøve, sjekk den i forhåndsvisningen, og lagre den eller del den som en fil.",
+    startFrom: "Start med",
+    blankTest: "En tom prøve",
+    copyBuiltIn: "Kopier en innebygd prøve",
+    editAuthored: "Rediger en prøve laget på denne enheten",
+    open: "Åpne",
+    importLabel: "Eller importer en prøvefil",
+    notJson: (file) => `${file} er ikke en JSON-fil.`,
+    cantOpen: "Den filen kan ikke åpnes som en prøve:",
+    imported: (file) => `Importerte ${file}. Lagre den for å legge den til i prøvevelgeren.`,
+    copyOf: (title) => `Kopi av ${title}`,
+    toFix: (n) => (n === 1 ? "1 ting må rettes før du kan lagre." : `${n} ting må rettes før du kan lagre.`),
+    ready: "Klar til å lagres.",
+    save: "Lagre på denne enheten",
+    saved: "Lagret. Den ligger i prøvevelgeren på denne enheten.",
+    exportFile: "Eksporter fil",
+    delete: "Slett",
+    confirmDelete: (title) => `Vil du slette «${title}» fra denne enheten?`,
+    deleted: "Slettet.",
+    preview: "Forhåndsvisning",
+    clearPreview: "Tøm svarene i forhåndsvisningen",
+    readingTitlePlaceholder: "Tittel på leseteksten",
+    readingTextPlaceholder: "Leseteksten vises her.",
+    detailsTitle: "Om prøven",
+    testTitle: "Tittel",
+    testMinutes: "Minutter for hele prøven (eksamen)",
+    readingTitle: "Tittel på leseteksten",
+    readingText: "Lesetekst",
+    glossary: "Egne oversettelser",
+    glossaryHint: "(én per linje: ord = norsk oversettelse)",
+    onePerLine: "(én per linje)",
+    section: (n) => `Del ${n}`,
+    newSectionName: (n) => `Oppgave ${n}`,
+    sectionName: "Navn",
+    id: "Id",
+    sectionMinutes: "Minutter (eksamen)",
+    addSection: "Legg til del",
+    removeSection: "Fjern delen",
+    add: "Legg til:",
+    up: "Opp",
+    down: "Ned",
+    remove: "Fjern",
+    itemTypes: {
+      mcq: "Flervalg",
+      text: "Kort tekst (rettes automatisk)",
+      order: "Ordstilling",
+      cloze: "Fyll inn",
+      listening: "Lytting",
+      short: "Kortsvar (bare hint)",
+      writing: "Skriving (vurderes med kriterier)",
+    },
+    type: "Type",
+    prompt: "Oppgavetekst",
+    guidance: "Veiledning (valgfritt)",
+    guidanceNb: "Veiledning på norsk (valgfritt, vises ved behov)",
+    explanation: "Forklaring i svargjennomgangen (valgfritt)",
+    vocabWord: "Gloseord (valgfritt, legges i elevens glosebunke ved feil svar)",
+    skills: "Ferdighetsmerker (valgfritt, f.eks. past-simple, for øvingsbyggeren)",
+    level: "Nivå (valgfritt, for tilpasset øving)",
+    noLevel: "Uten nivå",
+    acceptedAnswers: "Godkjente svar",
+    keywords: "Nøkkelord for hint",
+    options: "Svaralternativer (velg det riktige)",
+    option: (letter) => `Alternativ ${letter}`,
+    optionCorrect: (letter) => `Alternativ ${letter} er riktig`,
+    orderSentence: "Setningen i riktig rekkefølge (uten skilletegn til slutt)",
+    orderTiles: "Brikkene slik de vises først (de samme ordene, stokket)",
+    scramble: "Stokk",
+    endMark: "Skilletegn til slutt",
+    passage: "Tekst (merk hvert hull som {{hullId}})",
+    gap: (n) => `Hull ${n}`,
+    gapKind: (n) => `Type for hull ${n}`,
+    gapText: "Skriv ordet",
+    gapSelect: "Velg fra en liste",
+    removeGap: "Fjern hullet",
+    choices: "Valg",
+    correctChoice: "Riktig valg",
+    choose: "Velg …",
+    addGap: "Legg til hull",
+    dialogue: "Dialog (leses høyt, én stemme per person)",
+    lineSpeaker: (n) => `Hvem sier linje ${n}`,
+    lineText: (n) => `Tekst i linje ${n}`,
+    speaker: "Person",
+    whatTheySay: "Hva de sier",
+    addLine: "Legg til linje",
+    maxPlays: "Antall avspillinger",
+    recording: "Opptak (valgfritt, sti under /public)",
+    defaultRubric: (criteria) => `Vurderes med standardkriteriene: ${criteria}.`,
+    customiseRubric: "Tilpass kriteriene",
+    rubric: "Kriterier (hvert kriterium gir fra 0 til maksimum poeng)",
+    criterion: (n) => `Kriterium ${n}`,
+    criterionPlaceholder: "Kriterium",
+    criterionNb: (n) => `Kriterium ${n} på norsk`,
+    criterionNbPlaceholder: "På norsk (valgfritt)",
+    criterionMax: (n) => `Maksimum poeng for kriterium ${n}`,
+    addCriterion: "Legg til kriterium",
+    useDefaultRubric: "Bruk standardkriteriene",
+  },
+  skills: {
+    "reading-detail": "Lesing for detaljer",
+    "reading-gist": "Lesing for hovedinnholdet",
+    "vocab-in-context": "Ordforråd i sammenheng",
+    "present-simple": "Presens",
+    "past-simple": "Preteritum",
+    "future-will": "Futurum med will",
+    "word-order": "Ordstilling",
+    listening: "Lytting",
+    writing: "Skriving",
+  },
+  offline: {
+    updateAvailable: "En ny versjon av appen er tilgjengelig.",
+    updateFailed: "Den nye versjonen kunne ikke lastes ned. Sjekk tilkoblingen og prøv igjen.",
+    reload: "Last inn på nytt",
+    updating: "Oppdaterer …",
+    later: "Senere",
+  },
+  profiles: {
+    title: "Profiler",
+    intro: "Hver elev på denne enheten har sine egne forsøk, sin egen historikk og sine egne innstillinger.",
+    whoTitle: "Hvem skal øve?",
+    whoIntro: "Velg profilen din for å fortsette der du slapp.",
+    firstTitle: "Lag profilen din",
+    firstNote: "Forsøk og historikk som allerede er lagret på denne enheten, hører til denne første profilen.",
+    addTitle: "Legg til en profil",
+    addAnother: "Legg til en elev til",
+    name: "Navn",
+    avatar: "Bilde",
+    avatarOption: (avatar) => `Bilde ${avatar}`,
+    pinOptional: "PIN-kode (valgfritt, 4 sifre)",
+    pinHint: "En PIN-kode holder andre på denne enheten ute av profilen din. Det er ikke et passord, så ikke bruk en du bruker andre steder.",
+    hasPin: "PIN",
+    add: "Legg til profil",
+    enterPin: (name) => `Skriv PIN-koden til ${name}`,
+    open: "Åpne",
+    cancel: "Avbryt",
+    wrongPin: "Feil PIN-kode. Prøv igjen.",
+    switch: "Bytt elev",
+    setPin: "Lag en PIN-kode (4 sifre)",
+    changePin: "Endre PIN-kode (4 sifre)",
+    savePin: "Lagre PIN-kode",
+    removePin: "Fjern PIN-kode",
+    pinSaved: "PIN-koden er lagret.",
+    pinRemoved: "PIN-koden er fjernet.",
+    delete: "Slett profil",
+    confirmDelete: (name) => `Vil du slette ${name} og alle forsøkene og historikken deres på denne enheten?`,
+  },
+  history: {
+    title: "Historikk",
+    intro: "Alle leverte forsøk på denne enheten, og hvordan poengsummene dine endrer seg over tid.",
+    empty: "Ingen leverte forsøk ennå. Lever en prøve, så dukker den opp her.",
+    backToHistory: "Tilbake til historikken",
+    finishedReadOnly: (date) => `Levert ${date} • kun lesing`,
+    testGone: "Denne prøven finnes ikke lenger, så bare den lagrede poengsummen kan vises:",
+    attempts: (n) => `Forsøk: ${n}`,
+    latest: (percent) => `Siste: ${percent} %`,
+    best: (percent) => `Beste: ${percent} %`,
+    trendLabel: (title) => `Utvikling i poengsum for ${title}, i prosent`,
+    open: "Åpne",
+    delete: "Slett",
+    importLabel: "Importer en fil med et forsøk (.json)",
+    imported: (title) => `Importerte et forsøk på «${title}».`,
+    importProblems: {
+      "not-json": "Den filen er ikke en JSON-fil.",
+      "not-attempt": "Den filen er ikke et forsøk eksportert fra denne appen.",
+      "newer-version": "Den filen kommer fra en nyere versjon av appen. Oppdater appen og prøv igjen.",
+      "invalid-test": "Prøven i den filen er skadet, så forsøket kan ikke åpnes.",
+    },
+  },
+};
@@ -0,0 +1,74 @@
+import type { DialogueLine, ListeningItem } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Listening
+ *  ----------------------------- */
+export const DEFAULT_MAX_PLAYS = 2;
+
+// How often each dialogue has been played, by item id. It is saved with the attempt (next to the
+// answers, not in them), so a reload can't reset it.
+export type ListeningPlays = Record<string, number>;
+
+export function playsUsed(item: ListeningItem, plays: ListeningPlays) {
+  const n = plays[item.id];
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+export function hasSpeechSynthesis() {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+let cachedVoices: SpeechSynthesisVoice[] = [];
+let cachedVoicesKey = "";
+
+/** English voices, as a stable array (only replaced when the browser's voice list changes). */
+export function getEnglishVoices(): SpeechSynthesisVoice[] {
+  if (!hasSpeechSynthesis()) return cachedVoices;
+  const voices = window.speechSynthesis.getVoices().filter((v) => v.lang.toLowerCase().startsWith("en"));
+  const key = voices.map((v) => v.voiceURI).join("|");
+  if (key !== cachedVoicesKey) {
+    cachedVoicesKey = key;
+    cachedVoices = voices;
+  }
+  return cachedVoices;
+}
+
+/** Browsers load voices asynchronously and announce them with "voiceschanged". */
+export function subscribeVoices(listener: () => void) {
+  if (!hasSpeechSynthesis()) return () => {};
+  window.speechSynthesis.addEventListener("voiceschanged", listener);
+  return () => window.speechSynthesis.removeEventListener("voiceschanged", listener);
+}
+
+/**
+ * Speaks the dialogue line by line, giving each speaker their own voice (or, with a single
+ * voice available, their own pitch). Returns a function that stops playback.
+ */
+export function speakDialogue(
+  dialogue: DialogueLine[],
+  voices: SpeechSynthesisVoice[],
+  onEnd: () => void
+): () => void {
+  const synth = window.speechSynthesis;
+  const speakers = [...new Set(dialogue.map((l) => l.speaker))];
+  synth.cancel();
+
+  dialogue.forEach((line, i) => {
+    const s = speakers.indexOf(line.speaker);
+    const u = new SpeechSynthesisUtterance(line.text);
+    u.lang = "en-GB";
+    u.rate = 0.9;
+    if (voices.length) u.voice = voices[s % voices.length];
+    if (voices.length < speakers.length) u.pitch = s % 2 === 0 ? 1 : 1.4;
+    if (i === dialogue.length - 1) {
+      u.onend = onEnd;
+      u.onerror = onEnd;
+    }
+    synth.speak(u);
+  });
+
+  return () => {
+    synth.cancel();
+    onEnd();
+  };
+}
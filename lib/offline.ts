@@ -0,0 +1,35 @@
+import { TEST_REGISTRY } from "@/lib/tests/registry";
+
+/** -----------------------------
+ *  Offline
+ *  ----------------------------- */
+// What the service worker (public/sw.js) keeps for use without a network, served to it as
+// /precache.json. Each page brings the scripts, styles and fonts it links to, so the built-in tests
+// (bundled with the scripts) come along. Attempts and history live in local storage already.
+export const OFFLINE_PAGES = [
+  "/",
+  "/history",
+  "/report",
+  "/review",
+  "/build",
+  "/adaptive",
+  "/author",
+  "/teacher",
+  "/shared",
+  "/profiles",
+];
+
+// Files under /public that no page links to: the install icons and recorded listening audio.
+export function offlineFiles() {
+  const audio = TEST_REGISTRY.flatMap((e) => e.test.sections.flatMap((s) => s.items)).flatMap((it) =>
+    it.type === "listening" && it.audioSrc ? [it.audioSrc] : []
+  );
+  return [
+    "/manifest.webmanifest",
+    "/apple-touch-icon.png",
+    "/icons/icon-192.png",
+    "/icons/icon-512.png",
+    "/icons/apple-touch-icon.png",
+    ...new Set(audio),
+  ];
+}
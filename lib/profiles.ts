@@ -0,0 +1,82 @@
+import {
+  activeProfileId,
+  adoptDeviceData,
+  readJSON,
+  removeProfileData,
+  setActiveProfileId,
+  writeJSON,
+} from "@/lib/storage";
+
+/** -----------------------------
+ *  Profiles
+ *  ----------------------------- */
+// Several students on one device, each with their own attempts, history and settings (see
+// storageKey() in lib/storage.ts). Without any profile the app stores everything for the device,
+// as it always has. The PIN only keeps siblings and classmates apart; it isn't a password.
+export type Profile = {
+  id: string;
+  name: string;
+  avatar: string; // one of AVATARS
+  pinHash?: string; // hashPin(); no PIN when missing
+  createdAt: number; // epoch ms
+};
+
+export const PROFILES_STORAGE_KEY = "profiles";
+
+export const AVATARS = ["🦊", "🐼", "🐸", "🦁", "🐙", "🐢", "🦉", "🐝", "🐬", "🦄", "🐯", "🐨"];
+
+export const MAX_NAME_LENGTH = 30;
+
+export function readProfiles() {
+  return readJSON<Profile[]>(PROFILES_STORAGE_KEY) ?? [];
+}
+
+export function isValidPin(pin: string) {
+  return /^\d{4}$/.test(pin);
+}
+
+/** SHA-256 of the PIN, salted with the profile id so equal PINs don't look alike. */
+export async function hashPin(profileId: string, pin: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${profileId}:${pin}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function checkPin(profile: Profile, pin: string) {
+  return !profile.pinHash || profile.pinHash === (await hashPin(profile.id, pin));
+}
+
+/** Adds a profile and switches to it. The first profile takes over what the device had stored. */
+export async function addProfile(name: string, avatar: string, pin: string): Promise<Profile> {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  const profile: Profile = {
+    id,
+    name: name.trim().slice(0, MAX_NAME_LENGTH),
+    avatar,
+    ...(pin ? { pinHash: await hashPin(id, pin) } : {}),
+    createdAt: Date.now(),
+  };
+  const profiles = readProfiles();
+  writeJSON(PROFILES_STORAGE_KEY, [...profiles, profile]);
+  if (profiles.length === 0) adoptDeviceData(id);
+  setActiveProfileId(id);
+  return profile;
+}
+
+export function updateProfile(id: string, patch: Partial<Pick<Profile, "name" | "avatar" | "pinHash">>) {
+  writeJSON(
+    PROFILES_STORAGE_KEY,
+    readProfiles().map((p) => {
+      if (p.id !== id) return p;
+      const next = { ...p, ...patch, name: (patch.name ?? p.name).trim().slice(0, MAX_NAME_LENGTH) };
+      if (!next.pinHash) delete next.pinHash;
+      return next;
+    })
+  );
+}
+
+/** Deletes a profile and everything stored for it. */
+export function deleteProfile(id: string) {
+  if (activeProfileId() === id) setActiveProfileId(null);
+  removeProfileData(id);
+  writeJSON(PROFILES_STORAGE_KEY, readProfiles().filter((p) => p.id !== id));
+}
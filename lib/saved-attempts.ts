@@ -0,0 +1,48 @@
+import { removeKey, writeJSON } from "@/lib/storage";
+import type { ExamState } from "@/lib/exam";
+import type { WritingScores } from "@/lib/writing-rubric";
+import type { ListeningPlays } from "@/lib/listening";
+
+/** -----------------------------
+ *  In-progress Attempts
+ *  ----------------------------- */
+export type Tab = "read" | "test" | "results";
+
+export type SavedAttempt = {
+  testKey: string;
+  answers: Record<string, string>;
+  writingScores?: WritingScores; // missing in attempts saved before writing rubrics
+  plays?: ListeningPlays; // how often each listening dialogue has been played
+  lookups?: string[]; // words looked up in the reading text, see lib/glossary.ts
+  finished: boolean;
+  attemptId?: string | null; // the history record of a finished attempt
+  tab: Tab;
+  exam?: ExamState | null; // a running exam keeps counting down in real time across reloads
+  shuffleSeed?: number | null; // see lib/shuffle.ts
+  savedAt: number; // epoch ms
+};
+
+// The test the student had open last, so a reload lands on the same test.
+export const LAST_TEST_STORAGE_KEY = "last-test";
+
+export function savedAttemptKey(testKey: string) {
+  return `attempt:${testKey}`;
+}
+
+export function hasProgress(a: Pick<SavedAttempt, "answers" | "writingScores" | "plays" | "lookups" | "exam">) {
+  return (
+    Object.keys(a.writingScores ?? {}).length > 0 ||
+    Object.keys(a.plays ?? {}).length > 0 ||
+    (a.lookups?.length ?? 0) > 0 ||
+    !!a.exam ||
+    Object.values(a.answers).some((v) => typeof v === "string" && v.trim().length > 0)
+  );
+}
+
+export function saveAttempt(attempt: SavedAttempt) {
+  writeJSON(savedAttemptKey(attempt.testKey), attempt);
+}
+
+export function clearSavedAttempt(testKey: string) {
+  removeKey(savedAttemptKey(testKey));
+}
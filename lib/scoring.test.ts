@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { itemPoints, reviewAnswers, scoreTest, weakAreas } from "@/lib/scoring";
+import type { Test } from "@/lib/tests/types";
+import type { WritingScores } from "@/lib/writing-rubric";
+
+const test: Test = {
+  title: "Sample",
+  readingTitle: "A short text",
+  readingText: "Tom went to school.",
+  sections: [
+    {
+      id: "s1",
+      name: "Reading",
+      items: [
+        {
+          id: "q1",
+          type: "mcq",
+          skills: ["reading-detail"],
+          prompt: "Where did Tom go?",
+          options: [
+            { id: "a", label: "school" },
+            { id: "b", label: "home" },
+          ],
+          answer: "a",
+        },
+        {
+          id: "q2",
+          type: "text",
+          skills: ["past-simple"],
+          prompt: "Write the sentence in the past.",
+          acceptedAnswers: ["Tom went to school."],
+        },
+        {
+          id: "c1",
+          type: "cloze",
+          skills: ["vocab-in-context"],
+          prompt: "Fill in the gaps.",
+          passage: "Tom {{g1}} to school. He {{g2}} happy.",
+          gaps: [
+            { id: "g1", kind: "text", acceptedAnswers: ["went"] },
+            { id: "g2", kind: "select", options: ["was", "were"], answer: "was" },
+          ],
+        },
+      ],
+    },
+    {
+      id: "s2",
+      name: "Writing",
+      items: [{ id: "w1", type: "writing", skills: ["writing"], prompt: "Write about your day." }],
+    },
+  ],
+};
+
+const answers = { q1: "a", q2: "Tom went to shcool", "c1.g1": "went", "c1.g2": "were", w1: "I went to school." };
+
+const fullyScored: WritingScores = {
+  w1: { by: "reviewer", criteria: { task: 2, sentences: 1, tense: 2, accuracy: 1, vocabulary: 0 } },
+};
+
+describe("itemPoints", () => {
+  it("scores MCQs right or wrong, text items with partial credit and cloze items per gap", () => {
+    const [mcq, text, cloze] = test.sections[0].items;
+    expect(itemPoints(mcq, answers)).toBe(1);
+    expect(itemPoints(text, answers)).toBe(0.75);
+    expect(itemPoints(cloze, answers)).toBe(1);
+  });
+});
+
+describe("scoreTest", () => {
+  it("leaves unscored writing out of the totals", () => {
+    const summary = scoreTest(test, answers, {});
+    expect(summary).toMatchObject({
+      autoScore: 2.75,
+      totalAutoPoints: 4,
+      writingScore: 0,
+      totalWritingPoints: 0,
+      unscoredWriting: 1,
+      finalScore: 2.75,
+      totalPoints: 4,
+    });
+    expect(summary.sections.find((s) => s.id === "s2")).toMatchObject({ score: 0, max: 0 });
+    expect(summary.skills.map((s) => s.skill)).not.toContain("writing");
+  });
+
+  it("leaves partly scored writing out too", () => {
+    const partly: WritingScores = { w1: { by: "student", criteria: { task: 2 } } };
+    expect(scoreTest(test, answers, partly)).toMatchObject({ unscoredWriting: 1, totalPoints: 4 });
+  });
+
+  it("adds writing to the totals once every criterion is scored", () => {
+    expect(scoreTest(test, answers, fullyScored)).toMatchObject({
+      writingScore: 6,
+      totalWritingPoints: 10,
+      unscoredWriting: 0,
+      finalScore: 8.75,
+      totalPoints: 14,
+    });
+  });
+});
+
+describe("weakAreas", () => {
+  it("does not report unscored writing as a weak area", () => {
+    const areas = weakAreas(scoreTest(test, { ...answers, "c1.g1": "" }, {}));
+    expect(areas.map((a) => a.id)).toEqual(["vocab-in-context"]);
+  });
+
+  it("reports scored writing below 60%", () => {
+    const low: WritingScores = {
+      w1: { by: "reviewer", criteria: { task: 1, sentences: 1, tense: 1, accuracy: 0, vocabulary: 0 } },
+    };
+    expect(weakAreas(scoreTest(test, answers, low)).map((a) => a.id)).toEqual(["writing", "vocab-in-context"]);
+  });
+});
+
+describe("reviewAnswers", () => {
+  it("reviews cloze gaps one by one, with grading issues for typed answers", () => {
+    const [group] = reviewAnswers(test, answers);
+    expect(group.items.map((r) => [r.key, r.status])).toEqual([
+      ["q1", "correct"],
+      ["q2", "partial"],
+      ["c1.g1", "correct"],
+      ["c1.g2", "incorrect"],
+    ]);
+    expect(group.items[1].issues).toEqual([{ kind: "spelling", typos: [{ given: "shcool", expected: "school" }] }]);
+    expect(group.items[3]).toMatchObject({ gap: 2, prompt: "He ____ happy." });
+  });
+});
@@ -0,0 +1,274 @@
+import type {
+  ClozeGap,
+  ClozeItem,
+  Item,
+  ListeningItem,
+  MCQItem,
+  Section,
+  ShortItem,
+  Test,
+} from "@/lib/tests/types";
+import { containsAnyKeyword } from "@/lib/text";
+import { gradeOrder, gradeText, type GradeIssue, type GradeResult } from "@/lib/grading";
+import { orderAnswerWords, orderSentence } from "@/lib/word-order";
+import { clozeAnswerKey, clozeFilledText, clozeGapContext } from "@/lib/cloze";
+import { optionLetter } from "@/lib/shuffle";
+import { compareSkills } from "@/lib/tests/skills";
+import { isWritingScored, rubricMax, writingPoints, type WritingScores } from "@/lib/writing-rubric";
+
+/** -----------------------------
+ *  Scoring
+ *  ----------------------------- */
+export type Answers = Record<string, string>;
+
+export type SectionScore = {
+  id: string;
+  name: string;
+  score: number;
+  max: number; // auto-scored and scored rubric points; 0 for sections with only hint-checked items
+};
+
+// Items with several tags count towards each of them.
+export type SkillScore = {
+  skill: string;
+  score: number;
+  max: number;
+};
+
+export type ScoreSummary = {
+  autoScore: number;
+  totalAutoPoints: number;
+  writingScore: number;
+  totalWritingPoints: number;
+  unscoredWriting: number; // writing items left out of the totals until they are scored
+  finalScore: number;
+  totalPoints: number;
+  sections: SectionScore[];
+  skills: SkillScore[]; // scored points per skill tag
+};
+
+export function isAutoScored(it: Item) {
+  return it.type === "mcq" || it.type === "text" || it.type === "order" || it.type === "cloze";
+}
+
+/**
+ * Points an item is worth: one per cloze gap, one for other auto-scored items, the rubric
+ * total for writing, none otherwise.
+ */
+export function itemMaxPoints(it: Item) {
+  if (it.type === "cloze") return it.gaps.length;
+  if (it.type === "writing") return rubricMax(it);
+  return isAutoScored(it) ? 1 : 0;
+}
+
+function hasText(a: string | undefined) {
+  return typeof a === "string" && a.trim().length > 0;
+}
+
+export function isAnswered(it: Item, answers: Answers) {
+  const a = answers[it.id];
+  if (it.type === "mcq") return !!a;
+  if (it.type === "order") return orderAnswerWords(it, a).length === it.words.length;
+  if (it.type === "cloze") return it.gaps.every((g) => hasText(answers[clozeAnswerKey(it, g)]));
+  return hasText(a);
+}
+
+/** Grading for one cloze gap: dropdown gaps are right or wrong, typed gaps are graded like "text" items. */
+export function gradeGap(item: ClozeItem, gap: ClozeGap, answers: Answers): GradeResult {
+  const given = answers[clozeAnswerKey(item, gap)] || "";
+  if (gap.kind === "text") return gradeText(given, gap.acceptedAnswers, gap.grading);
+  const correct = given === gap.answer;
+  return {
+    points: correct ? 1 : 0,
+    typoDistance: 0,
+    typos: [],
+    orderCorrect: true,
+    missing: [],
+    extra: [],
+    issues: [],
+  };
+}
+
+/** Grading details for items that can earn partial credit, null for all-or-nothing items. */
+export function gradeItem(it: Item, answers: Answers): GradeResult | null {
+  const given = answers[it.id] || "";
+  if (it.type === "text") return gradeText(given, it.acceptedAnswers, it.grading);
+  if (it.type === "order") return gradeOrder(orderAnswerWords(it, given), it.correctOrder);
+  return null;
+}
+
+/** Points (0..itemMaxPoints) for an auto-scored item; "text", "order" and cloze gaps can earn partial credit. */
+export function itemPoints(it: Item, answers: Answers) {
+  if (it.type === "mcq") return answers[it.id] === it.answer ? 1 : 0;
+  if (it.type === "cloze") return it.gaps.reduce((sum, g) => sum + gradeGap(it, g, answers).points, 0);
+  return gradeItem(it, answers)?.points ?? 0;
+}
+
+/** The answer as the student would read it back: option text, built sentence or typed text. */
+export function displayAnswer(it: Item, answers: Answers) {
+  const a = answers[it.id];
+  if (it.type === "mcq") return mcqOptionText(it, a) ?? "";
+  if (it.type === "order") return orderSentence(orderAnswerWords(it, a), it.endMark);
+  if (it.type === "cloze") return clozeFilledText(it, answers);
+  return (a ?? "").trim();
+}
+
+/** Scores can be fractional with partial credit: "7.75", but "8" rather than "8.00". */
+export function formatPoints(n: number) {
+  return String(Math.round(n * 100) / 100);
+}
+
+/** "B) excited" for an option id, lettered by its position as shown, or null if nothing was chosen. */
+export function mcqOptionText(it: MCQItem, optionId: string | undefined) {
+  const idx = it.options.findIndex((o) => o.id === optionId);
+  return idx >= 0 ? `${optionLetter(idx)}) ${it.options[idx].label}` : null;
+}
+
+export type ItemReview = {
+  key: string; // item id, or "<item id>.<gap id>" for a cloze gap
+  prompt: string; // for a cloze gap, the sentence it sits in
+  gap?: number; // 1-based gap number within its cloze item
+  item: Item;
+  given: string; // what the student answered, formatted for display ("" if unanswered)
+  expected: string[]; // the correct option, or every accepted answer
+  points: number;
+  status: "correct" | "partial" | "incorrect" | "unanswered";
+  issues: GradeIssue[]; // grading diagnostics for "text" and "order" items and typed gaps
+};
+
+function reviewItem(item: Item, answers: Answers): ItemReview {
+  const given = displayAnswer(item, answers);
+  const expected =
+    item.type === "mcq"
+      ? [mcqOptionText(item, item.answer) ?? item.answer]
+      : item.type === "text"
+        ? item.acceptedAnswers
+        : item.type === "order"
+          ? [orderSentence(item.correctOrder, item.endMark)]
+          : [];
+  const graded = gradeItem(item, answers);
+  const points = itemPoints(item, answers);
+  const status = reviewStatus(isAnswered(item, answers), points, 1);
+  return { key: item.id, prompt: item.prompt, item, given, expected, points, status, issues: graded?.issues ?? [] };
+}
+
+function reviewStatus(answered: boolean, points: number, max: number): ItemReview["status"] {
+  if (!answered) return "unanswered";
+  if (points >= max) return "correct";
+  return points > 0 ? "partial" : "incorrect";
+}
+
+// Cloze items are reviewed gap by gap, each with the sentence it sits in.
+function reviewCloze(item: ClozeItem, answers: Answers): ItemReview[] {
+  return item.gaps.map((gap, i) => {
+    const given = (answers[clozeAnswerKey(item, gap)] ?? "").trim();
+    const graded = gradeGap(item, gap, answers);
+    return {
+      key: clozeAnswerKey(item, gap),
+      prompt: clozeGapContext(item, gap.id),
+      gap: i + 1,
+      item,
+      given,
+      expected: gap.kind === "select" ? [gap.answer] : gap.acceptedAnswers,
+      points: graded.points,
+      status: reviewStatus(given.length > 0, graded.points, 1),
+      issues: graded.issues,
+    };
+  });
+}
+
+/** Item-by-item review of the auto-scored items, grouped by section (sections without any are left out). */
+export function reviewAnswers(test: Test, answers: Answers): { section: Section; items: ItemReview[] }[] {
+  return test.sections
+    .map((section) => ({
+      section,
+      items: section.items
+        .filter(isAutoScored)
+        .flatMap((item) => (item.type === "cloze" ? reviewCloze(item, answers) : [reviewItem(item, answers)])),
+    }))
+    .filter((g) => g.items.length > 0);
+}
+
+export function scoreTest(test: Test, answers: Answers, writingScores: WritingScores): ScoreSummary {
+  const items = test.sections.flatMap((s) => s.items);
+  // Writing nobody has scored yet is left out of every total and of the weak areas, rather than
+  // counting as 0 out of the whole rubric. It joins them once every criterion has points.
+  const scored = (it: Item) => isAutoScored(it) || (it.type === "writing" && isWritingScored(it, writingScores));
+  const points = (it: Item) => (it.type === "writing" ? writingPoints(it, writingScores) : itemPoints(it, answers));
+  const sum = (list: Item[], f: (it: Item) => number) => list.reduce((total, it) => total + f(it), 0);
+
+  const sections = test.sections.map((s) => {
+    const inSection = s.items.filter(scored);
+    return { id: s.id, name: s.name, score: sum(inSection, points), max: sum(inSection, itemMaxPoints) };
+  });
+
+  const bySkill = new Map<string, SkillScore>();
+  for (const it of items.filter(scored)) {
+    for (const skill of it.skills ?? []) {
+      const s = bySkill.get(skill) ?? { skill, score: 0, max: 0 };
+      bySkill.set(skill, { skill, score: s.score + points(it), max: s.max + itemMaxPoints(it) });
+    }
+  }
+
+  const auto = items.filter(isAutoScored);
+  const writing = items.filter((it) => it.type === "writing" && scored(it));
+  const autoScore = sum(auto, points);
+  const writingScore = sum(writing, points);
+  const totalAutoPoints = sum(auto, itemMaxPoints);
+  const totalWritingPoints = sum(writing, itemMaxPoints);
+  return {
+    autoScore,
+    totalAutoPoints,
+    writingScore,
+    totalWritingPoints,
+    unscoredWriting: items.filter((it) => it.type === "writing").length - writing.length,
+    finalScore: autoScore + writingScore,
+    totalPoints: totalAutoPoints + totalWritingPoints,
+    sections,
+    skills: [...bySkill.values()].sort((a, b) => compareSkills(a.skill, b.skill)),
+  };
+}
+
+// Areas scoring below this share of their points get targeted advice.
+const WEAK_BELOW = 60;
+
+export type WeakArea = {
+  kind: "skill" | "section";
+  id: string; // skill tag or section id
+  name: string; // section name; skill names are looked up by the UI
+  percent: number;
+};
+
+/**
+ * The weakest areas first, at most three. Skills are more specific, so they are used when the
+ * test is tagged; untagged tests fall back to their sections.
+ */
+export function weakAreas(summary: ScoreSummary): WeakArea[] {
+  const areas: WeakArea[] = summary.skills.length
+    ? summary.skills.map((s) => ({ kind: "skill", id: s.skill, name: s.skill, percent: percent(s.score, s.max) }))
+    : summary.sections
+        .filter((s) => s.max > 0)
+        .map((s) => ({ kind: "section", id: s.id, name: s.name, percent: percent(s.score, s.max) }));
+  return areas
+    .filter((a) => a.percent < WEAK_BELOW)
+    .sort((a, b) => a.percent - b.percent)
+    .slice(0, 3);
+}
+
+/** Keyword hints for "short" and "listening" answers; listening items also carry their transcript. */
+export function shortAnswerHints(test: Test, answers: Answers) {
+  const hinted = test.sections
+    .flatMap((s) => s.items)
+    .filter((it): it is ShortItem | ListeningItem => it.type === "short" || it.type === "listening");
+  return hinted.map((it) => {
+    const text = answers[it.id] || "";
+    const ok = text.trim().length > 0;
+    const hasHint = it.keywords?.length ? containsAnyKeyword(text, it.keywords) : true;
+    const transcript = it.type === "listening" ? it.dialogue : undefined;
+    return { id: it.id, prompt: it.prompt, ok, hasHint, keywords: it.keywords || [], transcript };
+  });
+}
+
+export function percent(score: number, total: number) {
+  return total > 0 ? Math.round((score / total) * 100) : 0;
+}
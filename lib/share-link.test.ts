@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeShareFragment,
+  encodeShareFragment,
+  sharedAttempt,
+  sharedTest,
+  testFingerprint,
+} from "@/lib/share-link";
+import { TEST_REGISTRY } from "@/lib/tests/registry";
+import type { AttemptRecord } from "@/lib/history";
+
+const entry = TEST_REGISTRY[0];
+
+const record: AttemptRecord = {
+  id: "a1",
+  testKey: entry.key,
+  testTitle: entry.test.title,
+  finishedAt: 1760000000000,
+  answers: { q1: "a" },
+  lookups: ["homework"],
+  score: 1,
+  totalPoints: 10,
+  sections: [],
+  shuffleSeed: 42,
+};
+
+describe("sharedAttempt", () => {
+  it("keeps what the results need, and only the name and test when there are any", () => {
+    const shared = sharedAttempt(record, entry, "  Ada ");
+    expect(shared).toEqual({
+      testKey: entry.key,
+      testTitle: entry.test.title,
+      fingerprint: testFingerprint(entry.test),
+      finishedAt: record.finishedAt,
+      answers: { q1: "a" },
+      shuffleSeed: 42,
+      score: 1,
+      totalPoints: 10,
+      studentName: "Ada",
+    });
+    expect(sharedAttempt(record, { ...entry, authored: true }).test).toBe(entry.test);
+  });
+});
+
+describe("share fragments", () => {
+  it("round-trips an attempt", async () => {
+    const shared = sharedAttempt(record, entry, "Ada");
+    const fragment = await encodeShareFragment(shared);
+    expect(fragment).toMatch(/^v1\.[A-Za-z0-9_-]+$/);
+    expect(await decodeShareFragment(`#${fragment}`)).toEqual({ shared: { v: 1, ...shared } });
+  });
+
+  it("reports empty, damaged and newer links", async () => {
+    const fragment = await encodeShareFragment(sharedAttempt(record, entry));
+    expect(await decodeShareFragment("")).toEqual({ problem: "empty" });
+    expect(await decodeShareFragment("hello")).toEqual({ problem: "damaged" });
+    expect(await decodeShareFragment(fragment.slice(0, 12))).toEqual({ problem: "damaged" });
+    expect(await decodeShareFragment("v99.abc")).toEqual({ problem: "newer-version" });
+  });
+});
+
+describe("sharedTest", () => {
+  it("finds a built-in test by key and notices when it has changed", () => {
+    const shared = sharedAttempt(record, entry);
+    expect(sharedTest(shared, TEST_REGISTRY)).toEqual({ test: entry.test, changed: false });
+
+    const edited = [{ ...entry, test: { ...entry.test, title: "Edited" } }];
+    expect(sharedTest(shared, edited)).toMatchObject({ changed: true });
+    expect(sharedTest(shared, [])).toEqual({ problem: "test-missing" });
+  });
+
+  it("uses the test carried in the link for tests made on a device", () => {
+    const shared = sharedAttempt(record, { ...entry, authored: true });
+    expect(sharedTest(shared, [])).toEqual({ test: entry.test, changed: false });
+  });
+});
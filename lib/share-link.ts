@@ -0,0 +1,134 @@
+import type { Test } from "@/lib/tests/types";
+import { findTestIssues } from "@/lib/tests/validate";
+import type { TestEntry } from "@/lib/tests/registry";
+import type { AttemptRecord } from "@/lib/history";
+import type { Answers } from "@/lib/scoring";
+import type { WritingScores } from "@/lib/writing-rubric";
+import type { ExamTiming } from "@/lib/exam";
+
+/** -----------------------------
+ *  Share Links
+ *  ----------------------------- */
+// A finished attempt packed into the URL fragment: JSON, deflated and base64url-encoded behind a
+// version prefix. The fragment never reaches a server, so sharing needs none. Built-in tests travel
+// by key with a fingerprint of their content; tests made on a device travel whole, because the
+// person opening the link won't have them.
+export const SHARE_LINK_VERSION = 1;
+const PREFIX = `v${SHARE_LINK_VERSION}.`;
+
+export type SharedAttempt = {
+  testKey: string;
+  testTitle: string;
+  fingerprint: string; // testFingerprint() when shared
+  finishedAt: number; // epoch ms
+  answers: Answers;
+  writingScores?: WritingScores;
+  shuffleSeed?: number;
+  score: number; // as scored when shared
+  totalPoints: number;
+  timing?: ExamTiming;
+  studentName?: string;
+  test?: Test; // only for tests that aren't built in
+};
+
+export type ShareLinkProblem = "empty" | "damaged" | "newer-version";
+
+/** FNV-1a over the test's JSON: changes whenever the content does. */
+export function testFingerprint(test: Test) {
+  const json = JSON.stringify(test);
+  let h = 2166136261;
+  for (let i = 0; i < json.length; i++) {
+    h ^= json.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h.toString(36);
+}
+
+async function pipe(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  return new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const binary = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+export function sharedAttempt(
+  attempt: AttemptRecord,
+  entry: Pick<TestEntry, "test" | "authored">,
+  studentName?: string | null
+): SharedAttempt {
+  return {
+    testKey: attempt.testKey,
+    testTitle: attempt.testTitle,
+    fingerprint: testFingerprint(entry.test),
+    finishedAt: attempt.finishedAt,
+    answers: attempt.answers,
+    ...(attempt.writingScores ? { writingScores: attempt.writingScores } : {}),
+    ...(attempt.shuffleSeed !== undefined ? { shuffleSeed: attempt.shuffleSeed } : {}),
+    score: attempt.score,
+    totalPoints: attempt.totalPoints,
+    ...(attempt.timing ? { timing: attempt.timing } : {}),
+    ...(studentName?.trim() ? { studentName: studentName.trim() } : {}),
+    ...(entry.authored ? { test: entry.test } : {}),
+  };
+}
+
+/** The fragment (without "#") for `shared`. */
+export async function encodeShareFragment(shared: SharedAttempt) {
+  const json = new TextEncoder().encode(JSON.stringify({ v: SHARE_LINK_VERSION, ...shared }));
+  return PREFIX + toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+function isShared(v: unknown): v is SharedAttempt {
+  if (typeof v !== "object" || v === null) return false;
+  const s = v as Record<string, unknown>;
+  return (
+    typeof s.testKey === "string" &&
+    typeof s.testTitle === "string" &&
+    typeof s.fingerprint === "string" &&
+    typeof s.finishedAt === "number" &&
+    typeof s.answers === "object" &&
+    s.answers !== null &&
+    typeof s.score === "number" &&
+    typeof s.totalPoints === "number" &&
+    (s.test === undefined || findTestIssues(s.test).length === 0)
+  );
+}
+
+/** Reads a fragment made by encodeShareFragment(), from this or an older version of the app. */
+export async function decodeShareFragment(fragment: string): Promise<{ shared: SharedAttempt } | { problem: ShareLinkProblem }> {
+  const trimmed = fragment.replace(/^#/, "").trim();
+  if (!trimmed) return { problem: "empty" };
+  const version = /^v(\d+)\./.exec(trimmed);
+  if (!version) return { problem: "damaged" };
+  if (Number(version[1]) > SHARE_LINK_VERSION) return { problem: "newer-version" };
+  try {
+    const bytes = await pipe(fromBase64Url(trimmed.slice(version[0].length)), new DecompressionStream("deflate-raw"));
+    const raw: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return isShared(raw) ? { shared: raw } : { problem: "damaged" };
+  } catch {
+    // Cut off or mistyped: the data doesn't inflate or isn't JSON.
+    return { problem: "damaged" };
+  }
+}
+
+/**
+ * The test to show a shared attempt against. "changed" means the test on this device has been
+ * edited since the link was made: the attempt still opens, but questions may have moved on.
+ */
+export function sharedTest(
+  shared: SharedAttempt,
+  catalogue: TestEntry[]
+): { test: Test; changed: boolean } | { problem: "test-missing" } {
+  if (shared.test) return { test: shared.test, changed: false };
+  const entry = catalogue.find((e) => e.key === shared.testKey);
+  if (!entry) return { problem: "test-missing" };
+  return { test: entry.test, changed: testFingerprint(entry.test) !== shared.fingerprint };
+}
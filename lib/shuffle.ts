@@ -0,0 +1,67 @@
+import type { Test } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Seeded Shuffling
+ *  ----------------------------- */
+// An attempt can mix up item order within each section and the order of MCQ options.
+// Everything follows from one seed stored with the attempt, so reopening or sharing the
+// attempt shows the same order. Answers and grading stay keyed on item and option ids.
+
+export function newShuffleSeed() {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// FNV-1a, so each section and item gets its own stream from the one seed.
+function hash(seed: number, salt: string) {
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < salt.length; i++) {
+    h ^= salt.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h;
+}
+
+// mulberry32: a small, fast PRNG that is plenty for ordering questions.
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher–Yates on a copy, drawing from `next` (0 ≤ n < 1). */
+export function shuffle<T>(values: T[], next: () => number = Math.random): T[] {
+  const out = [...values];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+export function seededShuffle<T>(values: T[], seed: number, salt: string): T[] {
+  return shuffle(values, random(hash(seed, salt)));
+}
+
+/** The test as this attempt shows it. Section order, ids and answers are unchanged. */
+export function shuffleTest(test: Test, seed: number | null | undefined): Test {
+  if (seed == null) return test;
+  return {
+    ...test,
+    sections: test.sections.map((s) => ({
+      ...s,
+      items: seededShuffle(s.items, seed, `section:${s.id}`).map((it) =>
+        it.type === "mcq" ? { ...it, options: seededShuffle(it.options, seed, `options:${it.id}`) } : it
+      ),
+    })),
+  };
+}
+
+/** "A", "B", "C"… for the option at `index`, whatever its id. */
+export function optionLetter(index: number) {
+  return String.fromCharCode(65 + index);
+}
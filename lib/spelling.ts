@@ -0,0 +1,65 @@
+import type { Test } from "@/lib/tests/types";
+import words from "@/lib/spelling/en-words.json";
+import { baseForms, isDictionaryWord, lookupWord, normalizeWord, splitWords } from "@/lib/glossary";
+import { editDistance } from "@/lib/text";
+
+/** -----------------------------
+ *  Spelling
+ *  ----------------------------- */
+// An offline spell-check against a bundled list of common words. The list holds base forms
+// (plus irregular forms and contractions); inflections are found through the glossary's
+// baseForms(), and any word the glossary or the test itself uses counts as known too.
+const WORDS = new Set<string>(words);
+
+/** Words a test uses in its passage, prompts, options and answers, so topic words aren't flagged. */
+export function testVocabulary(test: Test): Set<string> {
+  const texts: string[] = [test.title, test.readingTitle, test.readingText, ...Object.keys(test.glossary ?? {})];
+  for (const item of test.sections.flatMap((s) => s.items)) {
+    texts.push(item.prompt, item.guidance ?? "");
+    if (item.type === "mcq") texts.push(...item.options.map((o) => o.label));
+    if (item.type === "text") texts.push(...item.acceptedAnswers);
+    if (item.type === "order") texts.push(...item.correctOrder);
+    if (item.type === "cloze") texts.push(item.passage);
+    if (item.type === "listening") texts.push(...item.dialogue.map((l) => l.text));
+    if (item.type === "short" || item.type === "listening") texts.push(...(item.keywords ?? []));
+  }
+  const vocabulary = new Set<string>();
+  for (const text of texts) {
+    for (const seg of splitWords(text)) if (seg.kind === "word") vocabulary.add(normalizeWord(seg.text));
+  }
+  return vocabulary;
+}
+
+export function isKnownWord(word: string, vocabulary: Set<string> = new Set()): boolean {
+  const w = word.toLowerCase().replace(/’/g, "'");
+  if (WORDS.has(w) || vocabulary.has(w)) return true;
+  // Hyphenated words are fine when every part is.
+  if (w.includes("-")) return w.split("-").every((part) => isKnownWord(part, vocabulary));
+  const forms = baseForms(normalizeWord(w));
+  return forms.some((f) => WORDS.has(f) || vocabulary.has(f)) || lookupWord(w) !== null;
+}
+
+/**
+ * Whether `word` is listed as written, in the word list or the dictionary. Unlike isKnownWord()
+ * no suffix is stripped, so made-up forms like "shes" or "goed" don't pass as real words.
+ */
+export function isListedWord(word: string) {
+  const w = word.toLowerCase().replace(/’/g, "'");
+  return WORDS.has(w) || isDictionaryWord(w);
+}
+
+/** The closest known word within two edits, or null. Ties go to the word earlier in the alphabet. */
+export function suggestSpelling(word: string): string | null {
+  const w = word.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = w.length > 4 ? 3 : 2;
+  for (const candidate of WORDS) {
+    if (Math.abs(candidate.length - w.length) >= bestDistance) continue;
+    const d = editDistance(w, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
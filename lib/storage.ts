@@ -0,0 +1,136 @@
+/** -----------------------------
+ *  Local Storage
+ *  ----------------------------- */
+// Every key this app writes is namespaced so it can't clash with other apps on the same origin.
+const PREFIX = "english-practice:";
+
+// With profiles (lib/profiles.ts), each profile's keys get their own namespace. These keys stay
+// shared by the whole device: the profile list itself and the tests written in the editor
+// (AUTHORED_TESTS_STORAGE_KEY).
+const DEVICE_KEYS = new Set(["profiles", "authored-tests"]);
+
+// The profile chosen in this tab. It lives in session storage, so every launch asks again.
+const ACTIVE_PROFILE_KEY = PREFIX + "active-profile";
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+export function activeProfileId(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.sessionStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveProfileId(id: string | null) {
+  try {
+    if (id) window.sessionStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    else window.sessionStorage.removeItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    // ignore, see writeJSON
+  }
+  notify();
+}
+
+function profilePrefix(profileId: string) {
+  return `${PREFIX}profile:${profileId}:`;
+}
+
+export function storageKey(key: string) {
+  const profileId = DEVICE_KEYS.has(key) ? null : activeProfileId();
+  return profileId ? profilePrefix(profileId) + key : PREFIX + key;
+}
+
+/** Raw string for `key`, or null if missing or storage is unavailable (SSR, private mode). */
+export function readRaw(key: string): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(storageKey(key));
+  } catch {
+    return null;
+  }
+}
+
+export function parseJSON<T>(raw: string | null): T | null {
+  if (raw == null) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function readJSON<T>(key: string): T | null {
+  return parseJSON<T>(readRaw(key));
+}
+
+export function writeJSON(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(storageKey(key), JSON.stringify(value));
+  } catch {
+    // Quota exceeded or storage disabled: the app keeps working, it just won't remember.
+  }
+  notify();
+}
+
+export function removeKey(key: string) {
+  try {
+    window.localStorage.removeItem(storageKey(key));
+  } catch {
+    // ignore, see writeJSON
+  }
+  notify();
+}
+
+function appKeys() {
+  return Array.from({ length: window.localStorage.length }, (_, i) => window.localStorage.key(i)).filter(
+    (k): k is string => !!k?.startsWith(PREFIX)
+  );
+}
+
+/**
+ * Moves everything stored before profiles existed into `profileId`, so the first profile keeps the
+ * device's attempts and history. The language is copied rather than moved: the profile picker uses it.
+ */
+export function adoptDeviceData(profileId: string) {
+  try {
+    for (const full of appKeys()) {
+      const key = full.slice(PREFIX.length);
+      if (key.startsWith("profile:") || DEVICE_KEYS.has(key)) continue;
+      const value = window.localStorage.getItem(full);
+      if (value === null) continue;
+      window.localStorage.setItem(profilePrefix(profileId) + key, value);
+      if (key !== "locale") window.localStorage.removeItem(full);
+    }
+  } catch {
+    // ignore, see writeJSON
+  }
+  notify();
+}
+
+/** Removes every key stored for `profileId`. */
+export function removeProfileData(profileId: string) {
+  try {
+    for (const full of appKeys()) {
+      if (full.startsWith(profilePrefix(profileId))) window.localStorage.removeItem(full);
+    }
+  } catch {
+    // ignore, see writeJSON
+  }
+  notify();
+}
+
+/** Subscribes to writes from this tab and from other tabs of the app. */
+export function subscribeStorage(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
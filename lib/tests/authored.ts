@@ -0,0 +1,133 @@
+import type { Item, Test } from "@/lib/tests/types";
+import { TEST_REGISTRY, type TestEntry } from "@/lib/tests/registry";
+import { findTestIssues } from "@/lib/tests/validate";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+/** -----------------------------
+ *  Authored Tests
+ *  ----------------------------- */
+// Tests written in the editor live in local storage next to the built-in packs.
+export type AuthoredTest = {
+  key: string; // always starts with "custom-", so it can't shadow a built-in pack
+  test: Test;
+  updatedAt: number; // epoch ms
+  assembled?: boolean; // built from the question bank rather than written in the editor
+};
+
+export const AUTHORED_TESTS_STORAGE_KEY = "authored-tests";
+
+export function newAuthoredKey() {
+  return `custom-${Date.now().toString(36)}`;
+}
+
+export function saveAuthoredTest(entry: AuthoredTest) {
+  const all = readJSON<AuthoredTest[]>(AUTHORED_TESTS_STORAGE_KEY) ?? [];
+  const rest = all.filter((a) => a.key !== entry.key);
+  writeJSON(AUTHORED_TESTS_STORAGE_KEY, [...rest, entry]);
+}
+
+export function deleteAuthoredTest(key: string) {
+  const all = readJSON<AuthoredTest[]>(AUTHORED_TESTS_STORAGE_KEY) ?? [];
+  writeJSON(AUTHORED_TESTS_STORAGE_KEY, all.filter((a) => a.key !== key));
+}
+
+/** Built-in packs first, then every stored authored test that still validates. */
+export function buildCatalogue(authored: AuthoredTest[] | null): TestEntry[] {
+  const custom = (authored ?? [])
+    .filter((a) => a.key?.startsWith("custom-") && findTestIssues(a.test).length === 0)
+    .map((a) => ({ key: a.key, label: a.test.title, test: a.test, authored: true, assembled: a.assembled }));
+  return [...TEST_REGISTRY, ...custom];
+}
+
+/** -----------------------------
+ *  Blank Content
+ *  ----------------------------- */
+export function blankItem(type: Item["type"], id: string): Item {
+  const base = { id, prompt: "" };
+  switch (type) {
+    case "mcq":
+      return {
+        ...base,
+        type,
+        options: [
+          { id: "a", label: "" },
+          { id: "b", label: "" },
+          { id: "c", label: "" },
+        ],
+        answer: "a",
+      };
+    case "text":
+      return { ...base, type, acceptedAnswers: [""] };
+    case "order":
+      return { ...base, type, words: [], correctOrder: [] };
+    case "cloze":
+      return { ...base, type, passage: "{{g1}}", gaps: [{ id: "g1", kind: "text", acceptedAnswers: [""] }] };
+    case "listening":
+      return { ...base, type, dialogue: [{ speaker: "", text: "" }], maxPlays: 2 };
+    case "short":
+      return { ...base, type, keywords: [] };
+    case "writing":
+      return { ...base, type };
+  }
+}
+
+export function blankTest(): Test {
+  return {
+    title: "",
+    readingTitle: "",
+    readingText: "",
+    sections: [{ id: "section-1", name: "Task 1", items: [blankItem("mcq", "q1")] }],
+  };
+}
+
+/** The first id of the form `${prefix}${n}` that no item or section in the test uses yet. */
+export function nextFreeId(test: Test, prefix: string) {
+  const used = new Set(test.sections.flatMap((s) => [s.id, ...s.items.map((it) => it.id)]));
+  let n = 1;
+  while (used.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+// List fields are edited one entry per line, so blank lines creep in while typing.
+// They are dropped before saving or exporting; an empty keyword would otherwise match every answer.
+function lines(values: string[]) {
+  return values.map((v) => v.trim()).filter(Boolean);
+}
+
+// Tags are typed freely, so "Past simple" becomes "past-simple".
+function tidySkills(it: Item): Item {
+  if (!it.skills) return it;
+  const skills = lines(it.skills).map((s) => s.toLowerCase().replace(/[\s_]+/g, "-"));
+  return { ...it, skills: skills.length ? [...new Set(skills)] : undefined };
+}
+
+export function tidyTest(test: Test): Test {
+  return {
+    ...test,
+    sections: test.sections.map((s) => ({
+      ...s,
+      items: s.items.map(tidySkills).map((it): Item => {
+        switch (it.type) {
+          case "text":
+            return { ...it, acceptedAnswers: lines(it.acceptedAnswers) };
+          case "order":
+            return { ...it, words: lines(it.words), correctOrder: lines(it.correctOrder) };
+          case "cloze":
+            return {
+              ...it,
+              gaps: it.gaps.map((g) =>
+                g.kind === "select"
+                  ? { ...g, options: lines(g.options) }
+                  : { ...g, acceptedAnswers: lines(g.acceptedAnswers) },
+              ),
+            };
+          case "listening":
+          case "short":
+            return it.keywords ? { ...it, keywords: lines(it.keywords) } : it;
+          default:
+            return it;
+        }
+      }),
+    })),
+  };
+}
@@ -0,0 +1,132 @@
+import type { Item, Section, Test } from "@/lib/tests/types";
+import type { TestEntry } from "@/lib/tests/registry";
+import { compareSkills, skillName, usesPassage } from "@/lib/tests/skills";
+import { seededShuffle } from "@/lib/shuffle";
+
+/** -----------------------------
+ *  Question Bank
+ *  ----------------------------- */
+// Every tagged item from every test in the catalogue, pooled so a practice test can be
+// assembled by skill. Reading items remember which test's passage they belong to.
+export type BankItem = {
+  item: Item;
+  sourceKey: string; // the catalogue entry it came from, also its passage key
+};
+
+export type QuestionBank = {
+  items: BankItem[];
+  sources: Map<string, Test>;
+};
+
+export type PracticeRequest = {
+  skills: string[];
+  length: number; // items, not points
+  seed: number;
+};
+
+export const PRACTICE_LENGTHS = [5, 10, 15, 20];
+
+export function buildQuestionBank(catalogue: TestEntry[]): QuestionBank {
+  const sources = new Map<string, Test>();
+  const items: BankItem[] = [];
+  // Assembled tests only hold copies of items that are already in the bank.
+  for (const entry of catalogue.filter((e) => !e.assembled)) {
+    sources.set(entry.key, entry.test);
+    for (const s of entry.test.sections) {
+      for (const item of s.items) {
+        if (item.skills?.length) items.push({ item, sourceKey: entry.key });
+      }
+    }
+  }
+  return { items, sources };
+}
+
+/** Every tag in the bank with how many items carry it, in display order. */
+export function bankSkills(bank: QuestionBank) {
+  const counts = new Map<string, number>();
+  for (const b of bank.items) {
+    for (const s of b.item.skills ?? []) counts.set(s, (counts.get(s) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => compareSkills(a, b))
+    .map(([skill, count]) => ({ skill, count }));
+}
+
+/** Items that practise at least one of `skills`, with reading items counted for one passage only. */
+export function matchingItems(bank: QuestionBank, skills: string[], seed: number) {
+  const matches = bank.items.filter((b) => b.item.skills?.some((s) => skills.includes(s)));
+  const reading = matches.filter((b) => usesPassage(b.item));
+
+  // A test has one reading text, so reading items come from the passage with the most matches.
+  // Ties go to a passage picked by the seed, so building again can bring up another text.
+  const perPassage = new Map<string, number>();
+  for (const b of reading) perPassage.set(b.sourceKey, (perPassage.get(b.sourceKey) ?? 0) + 1);
+  const passageKey =
+    seededShuffle([...perPassage.keys()], seed, "passage").sort(
+      (a, b) => (perPassage.get(b) ?? 0) - (perPassage.get(a) ?? 0)
+    )[0] ?? null;
+
+  return {
+    passageKey,
+    items: matches.filter((b) => !usesPassage(b.item) || b.sourceKey === passageKey),
+  };
+}
+
+// Item ids only have to be unique within a test, so copies from different tests may clash.
+function uniqueId(item: Item, sourceKey: string, used: Set<string>) {
+  let id = used.has(item.id) ? `${sourceKey}-${item.id}` : item.id;
+  for (let n = 2; used.has(id); n++) id = `${sourceKey}-${item.id}-${n}`;
+  used.add(id);
+  return id === item.id ? item : { ...item, id };
+}
+
+/**
+ * A new test from the bank: up to `length` items picked at random (by the seed) from those
+ * that practise the chosen skills. Reading items come first with their own passage; the rest
+ * are grouped into one section per skill.
+ */
+export function assemblePractice(bank: QuestionBank, request: PracticeRequest): Test | null {
+  const { passageKey, items } = matchingItems(bank, request.skills, request.seed);
+  const picked = new Set(seededShuffle(items, request.seed, "items").slice(0, request.length));
+  if (picked.size === 0) return null;
+
+  // Keep the bank's order inside each section: it is the order the authors wrote them in.
+  const chosen = items.filter((b) => picked.has(b));
+  const used = new Set<string>();
+  const sections: Section[] = [];
+
+  const reading = chosen.filter((b) => usesPassage(b.item));
+  if (reading.length) {
+    sections.push({
+      id: "reading",
+      name: "Reading",
+      items: reading.map((b) => uniqueId(b.item, b.sourceKey, used)),
+    });
+  }
+  const skills = [...request.skills].sort(compareSkills);
+  for (const skill of skills) {
+    const inSkill = chosen.filter(
+      (b) => !usesPassage(b.item) && b.item.skills?.find((s) => skills.includes(s)) === skill
+    );
+    if (inSkill.length) {
+      sections.push({ id: skill, name: skillName(skill), items: inSkill.map((b) => uniqueId(b.item, b.sourceKey, used)) });
+    }
+  }
+
+  const passage = passageKey && reading.length ? bank.sources.get(passageKey) : undefined;
+  // Words looked up in the passage use its glossary; vocabulary items keep their own test's.
+  const glossary = Object.assign(
+    {},
+    ...[...new Set(chosen.map((b) => b.sourceKey))].map((k) => bank.sources.get(k)?.glossary ?? {}),
+    passage?.glossary ?? {}
+  ) as Record<string, string>;
+
+  return {
+    title: `My practice: ${skills.map(skillName).join(", ")}`,
+    readingTitle: passage?.readingTitle ?? "Your practice",
+    readingText:
+      passage?.readingText ?? "There is no reading text in this practice. Start the test when you are ready.",
+    sections,
+    glossary: Object.keys(glossary).length ? glossary : undefined,
+  };
+}
@@ -0,0 +1,37 @@
+import type { Test } from "@/lib/tests/types";
+import { validateTest } from "@/lib/tests/validate";
+import day1 from "@/lib/tests/packs/day1.json";
+import original from "@/lib/tests/packs/original.json";
+import day2 from "@/lib/tests/packs/day2.json";
+
+/** -----------------------------
+ *  Test Registry
+ *  ----------------------------- */
+export type TestEntry = {
+  key: string;
+  label: string; // shown in the test picker
+  test: Test;
+  authored?: boolean; // written in the test editor and stored on this device
+  assembled?: boolean; // an authored test built on the practice builder, kept out of the question bank
+};
+
+// To add a test: drop a JSON pack into lib/tests/packs/ and list it here.
+// Order here is the order of the test picker.
+const PACKS: { key: string; label: string; data: unknown }[] = [
+  { key: "day1", label: "Reading & Vocabulary", data: day1 },
+  { key: "original", label: "Mixed Skills", data: original },
+  { key: "day2", label: "Grammar & Sentences", data: day2 },
+];
+
+// Packs are validated once, when this module loads, so a broken pack fails loudly.
+export const TEST_REGISTRY: TestEntry[] = PACKS.map((p) => ({
+  key: p.key,
+  label: p.label,
+  test: validateTest(p.data, p.key),
+}));
+
+export const DEFAULT_TEST_KEY = "day1";
+
+export function getTestEntry(key: string): TestEntry | undefined {
+  return TEST_REGISTRY.find((e) => e.key === key);
+}
@@ -0,0 +1,73 @@
+import type { Item, Level } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Skill Tags
+ *  ----------------------------- */
+// Items carry kebab-case skill tags so the question bank can pick them by skill.
+// Authors may use their own tags too; these are the ones the built-in packs use, in the
+// order the practice builder lists them.
+export const KNOWN_SKILLS = [
+  "reading-detail",
+  "reading-gist",
+  "vocab-in-context",
+  "present-simple",
+  "past-simple",
+  "future-will",
+  "word-order",
+  "listening",
+  "writing",
+] as const;
+
+export type KnownSkill = (typeof KNOWN_SKILLS)[number];
+
+// English names, used for section titles in assembled tests (test content is English).
+const SKILL_NAMES: Record<KnownSkill, string> = {
+  "reading-detail": "Reading for detail",
+  "reading-gist": "Reading for the main idea",
+  "vocab-in-context": "Vocabulary in context",
+  "present-simple": "Present simple",
+  "past-simple": "Past simple",
+  "future-will": "Future with will",
+  "word-order": "Word order",
+  listening: "Listening",
+  writing: "Writing",
+};
+
+// Items with these tags can't be answered without the reading text they were written for.
+const PASSAGE_SKILLS: string[] = ["reading-detail", "reading-gist"];
+
+export function isSkillTag(v: unknown): v is string {
+  return typeof v === "string" && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(v);
+}
+
+export function isKnownSkill(tag: string): tag is KnownSkill {
+  return (KNOWN_SKILLS as readonly string[]).includes(tag);
+}
+
+/** English name for a tag; unknown tags read as "my-tag" → "My tag". */
+export function skillName(tag: string) {
+  if (isKnownSkill(tag)) return SKILL_NAMES[tag];
+  const words = tag.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function usesPassage(item: Item) {
+  return (item.skills ?? []).some((s) => PASSAGE_SKILLS.includes(s));
+}
+
+/** Known tags in their listed order, then the rest alphabetically. */
+export function compareSkills(a: string, b: string) {
+  const ia = isKnownSkill(a) ? KNOWN_SKILLS.indexOf(a) : KNOWN_SKILLS.length;
+  const ib = isKnownSkill(b) ? KNOWN_SKILLS.indexOf(b) : KNOWN_SKILLS.length;
+  return ia - ib || a.localeCompare(b);
+}
+
+/** -----------------------------
+ *  Levels
+ *  ----------------------------- */
+// Easiest first; adaptive practice steps along this list.
+export const LEVELS: Level[] = ["A1", "A2", "B1", "B2"];
+
+export function isLevel(v: unknown): v is Level {
+  return LEVELS.includes(v as Level);
+}
@@ -0,0 +1,103 @@
+import type { GradingConfig } from "@/lib/grading";
+
+/** -----------------------------
+ *  Question Types
+ *  ----------------------------- */
+export type MCQOption = { id: "a" | "b" | "c"; label: string };
+
+// CEFR level an item is pitched at, used by adaptive practice.
+export type Level = "A1" | "A2" | "B1" | "B2";
+
+export type ItemBase = {
+  id: string;
+  prompt: string;
+  guidance?: string;
+  guidanceNb?: string; // Norwegian translation of the guidance, shown when the student asks for it
+  explanation?: string; // shown in the answer review, e.g. "last Monday → past simple → went"
+  vocabWord?: string; // the word this item practises; added to the vocabulary deck when missed
+  skills?: string[]; // skill tags such as "past-simple", see lib/tests/skills.ts
+  level?: Level;
+};
+
+export type MCQItem = ItemBase & {
+  type: "mcq";
+  options: MCQOption[];
+  answer: "a" | "b" | "c";
+};
+
+export type TextAutoItem = ItemBase & {
+  type: "text";
+  acceptedAnswers: string[]; // graded forgivingly, see lib/grading.ts
+  grading?: Partial<GradingConfig>; // overrides the default partial-credit penalties
+};
+
+export type OrderItem = ItemBase & {
+  type: "order";
+  words: string[]; // tiles in the order they are first shown (scrambled)
+  correctOrder: string[]; // the same words in sentence order
+  endMark?: "." | "?" | "!"; // added automatically, defaults to "."
+};
+
+export type ClozeGap =
+  | { id: string; kind: "select"; options: string[]; answer: string }
+  | { id: string; kind: "text"; acceptedAnswers: string[]; grading?: Partial<GradingConfig> };
+
+export type ClozeItem = ItemBase & {
+  type: "cloze";
+  passage: string; // gaps are marked inline as {{gapId}}
+  gaps: ClozeGap[]; // each gap is worth one point
+};
+
+export type DialogueLine = { speaker: string; text: string };
+
+export type ListeningItem = ItemBase & {
+  type: "listening";
+  dialogue: DialogueLine[]; // played aloud, shown as a transcript only on Results
+  audioSrc?: string; // bundled recording under /public, used when speech synthesis is unavailable
+  maxPlays?: number; // defaults to 2, like the real test
+  keywords?: string[]; // for gentle hints only (not grading)
+};
+
+export type ShortItem = ItemBase & {
+  type: "short";
+  keywords?: string[]; // for gentle hints only (not grading)
+};
+
+export type RubricCriterion = {
+  id: string;
+  label: string;
+  labelNb?: string;
+  hint?: string; // what full marks look like
+  hintNb?: string;
+  max: number; // scored 0..max in whole points
+};
+
+export type WritingItem = ItemBase & {
+  type: "writing";
+  rubric?: RubricCriterion[]; // defaults to DEFAULT_RUBRIC in lib/writing-rubric.ts
+};
+
+export type Item =
+  | MCQItem
+  | TextAutoItem
+  | OrderItem
+  | ClozeItem
+  | ListeningItem
+  | ShortItem
+  | WritingItem;
+
+export type Section = {
+  id: string;
+  name: string;
+  items: Item[];
+  timeLimitMinutes?: number; // exam mode, "per section" limits
+};
+
+export type Test = {
+  title: string;
+  readingTitle: string;
+  readingText: string;
+  sections: Section[];
+  timeLimitMinutes?: number; // exam mode, suggested limit for the whole test
+  glossary?: Record<string, string>; // lower-case English word → Norwegian, overrides the bundled dictionary
+};
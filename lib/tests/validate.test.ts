@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { TestValidationError, findTestIssues, validateTest } from "@/lib/tests/validate";
+import { TEST_REGISTRY } from "@/lib/tests/registry";
+
+function sampleTest(items: unknown[]) {
+  return {
+    title: "Sample",
+    readingTitle: "A short text",
+    readingText: "Tom went to school.",
+    sections: [{ id: "s1", name: "Section 1", items }],
+  };
+}
+
+const mcq = {
+  id: "q1",
+  type: "mcq",
+  prompt: "Where did Tom go?",
+  options: [
+    { id: "a", label: "school" },
+    { id: "b", label: "home" },
+  ],
+  answer: "a",
+};
+
+describe("findTestIssues", () => {
+  it("accepts every bundled pack", () => {
+    for (const entry of TEST_REGISTRY) expect(findTestIssues(entry.test)).toEqual([]);
+  });
+
+  it("accepts a minimal test", () => {
+    expect(findTestIssues(sampleTest([mcq]))).toEqual([]);
+  });
+
+  it("reports missing top-level fields and sections", () => {
+    expect(findTestIssues({ title: "x" })).toEqual([
+      'missing "readingTitle"',
+      'missing "readingText"',
+      '"sections" must be a non-empty list',
+    ]);
+    expect(findTestIssues(null)).toEqual(["test must be an object"]);
+  });
+
+  it("reports an MCQ answer that isn't an option", () => {
+    expect(findTestIssues(sampleTest([{ ...mcq, answer: "c" }]))).toEqual([
+      'sections[0].items[0]: answer "c" is not one of the options',
+    ]);
+  });
+
+  it("reports duplicate item ids across the test", () => {
+    expect(findTestIssues(sampleTest([mcq, mcq]))).toEqual(['sections[0].items[1]: duplicate item id "q1"']);
+  });
+
+  it("checks that word-order tiles match the correct order", () => {
+    const order = { id: "o1", type: "order", prompt: "Order", words: ["school", "Tom"], correctOrder: ["Tom", "home"] };
+    expect(findTestIssues(sampleTest([order]))).toEqual([
+      'sections[0].items[0]: "correctOrder" must use exactly the same words as "words"',
+    ]);
+  });
+
+  it("checks that every cloze gap appears exactly once in the passage", () => {
+    const cloze = {
+      id: "c1",
+      type: "cloze",
+      prompt: "Fill in",
+      passage: "Tom {{g1}} to school. {{g2}}",
+      gaps: [{ id: "g1", kind: "text", acceptedAnswers: ["went"] }],
+    };
+    expect(findTestIssues(sampleTest([cloze]))).toEqual([
+      "sections[0].items[0]: passage uses {{g2}} but there is no such gap",
+    ]);
+  });
+
+  it("rejects unknown item types", () => {
+    expect(findTestIssues(sampleTest([{ id: "x", type: "essay", prompt: "Write" }]))).toEqual([
+      'sections[0].items[0]: unknown item type "essay"',
+    ]);
+  });
+});
+
+describe("validateTest", () => {
+  it("throws every issue at once, naming the source", () => {
+    const raw = sampleTest([{ ...mcq, answer: "c" }, { ...mcq, prompt: "" }]);
+    try {
+      validateTest(raw, "sample.json");
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(TestValidationError);
+      const err = e as TestValidationError;
+      expect(err.source).toBe("sample.json");
+      expect(err.issues).toHaveLength(3);
+    }
+  });
+});
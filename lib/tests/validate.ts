@@ -0,0 +1,261 @@
+import type { Test } from "@/lib/tests/types";
+import { DEFAULT_GRADING } from "@/lib/grading";
+import { parseCloze } from "@/lib/cloze";
+import { isLevel, isSkillTag, LEVELS } from "@/lib/tests/skills";
+
+/** -----------------------------
+ *  Validation
+ *  ----------------------------- */
+export class TestValidationError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid test "${source}":\n- ${issues.join("\n- ")}`);
+    this.name = "TestValidationError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const MCQ_IDS = ["a", "b", "c"];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string");
+}
+
+function checkMinutes(v: unknown, where: string, issues: string[]) {
+  if (v !== undefined && !(typeof v === "number" && v > 0)) {
+    issues.push(`${where}: "timeLimitMinutes" must be a number above 0`);
+  }
+}
+
+function checkGrading(grading: unknown, where: string, issues: string[]) {
+  if (grading === undefined) return;
+  const g = isRecord(grading) ? grading : {};
+  const bad = Object.keys(DEFAULT_GRADING).filter((k) => g[k] !== undefined && typeof g[k] !== "number");
+  if (!isRecord(grading) || bad.length) issues.push(`${where}: "grading" values must be numbers`);
+}
+
+function checkRubric(rubric: unknown, where: string, issues: string[]) {
+  if (rubric === undefined) return;
+  if (!Array.isArray(rubric) || rubric.length === 0) {
+    issues.push(`${where}: "rubric" must be a non-empty list of criteria`);
+    return;
+  }
+  const seen = new Set<string>();
+  rubric.forEach((c: unknown, cIdx: number) => {
+    const cWhere = `${where}.rubric[${cIdx}]`;
+    if (!isRecord(c) || !isNonEmptyString(c.id) || !isNonEmptyString(c.label)) {
+      issues.push(`${cWhere}: criterion needs an "id" and a "label"`);
+      return;
+    }
+    if (seen.has(c.id)) issues.push(`${cWhere}: duplicate criterion id "${c.id}"`);
+    seen.add(c.id);
+    if (!(Number.isInteger(c.max) && (c.max as number) >= 1 && (c.max as number) <= 10)) {
+      issues.push(`${cWhere}: "max" must be a whole number from 1 to 10`);
+    }
+    for (const key of ["labelNb", "hint", "hintNb"]) {
+      if (c[key] !== undefined && typeof c[key] !== "string") issues.push(`${cWhere}: "${key}" must be a string`);
+    }
+  });
+}
+
+function checkClozeGaps(raw: Record<string, unknown>, where: string, issues: string[]) {
+  if (!isNonEmptyString(raw.passage)) {
+    issues.push(`${where}: missing "passage"`);
+    return;
+  }
+  const gaps = Array.isArray(raw.gaps) ? raw.gaps : [];
+  if (gaps.length === 0) issues.push(`${where}: cloze needs at least one gap`);
+
+  const inPassage = parseCloze(raw.passage).flatMap((s) => (s.kind === "gap" ? [s.gapId] : []));
+  const seen = new Set<string>();
+  gaps.forEach((gap: unknown, gIdx: number) => {
+    const gapWhere = `${where}.gaps[${gIdx}]`;
+    if (!isRecord(gap) || !isNonEmptyString(gap.id)) {
+      issues.push(`${gapWhere}: gap needs an "id"`);
+      return;
+    }
+    if (seen.has(gap.id)) issues.push(`${gapWhere}: duplicate gap id "${gap.id}"`);
+    seen.add(gap.id);
+    const uses = inPassage.filter((id) => id === gap.id).length;
+    if (uses !== 1) issues.push(`${gapWhere}: {{${gap.id}}} must appear exactly once in the passage`);
+
+    if (gap.kind === "select") {
+      const options = isStringArray(gap.options) ? gap.options : [];
+      if (options.length < 2) issues.push(`${gapWhere}: dropdown gap needs at least two options`);
+      if (!options.includes(gap.answer as string)) {
+        issues.push(`${gapWhere}: answer "${String(gap.answer)}" is not one of the options`);
+      }
+    } else if (gap.kind === "text") {
+      const accepted = isStringArray(gap.acceptedAnswers) ? gap.acceptedAnswers : [];
+      if (!accepted.some(isNonEmptyString)) issues.push(`${gapWhere}: "acceptedAnswers" is empty`);
+      checkGrading(gap.grading, gapWhere, issues);
+    } else {
+      issues.push(`${gapWhere}: "kind" must be "select" or "text"`);
+    }
+  });
+  for (const id of inPassage) {
+    if (!seen.has(id)) issues.push(`${where}: passage uses {{${id}}} but there is no such gap`);
+  }
+}
+
+function checkItem(raw: unknown, where: string, issues: string[]) {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: item must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(raw.id)) issues.push(`${where}: missing "id"`);
+  if (!isNonEmptyString(raw.prompt)) issues.push(`${where}: missing "prompt"`);
+  for (const key of ["guidance", "guidanceNb", "explanation", "vocabWord"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") {
+      issues.push(`${where}: "${key}" must be a string`);
+    }
+  }
+  if (raw.skills !== undefined && !(Array.isArray(raw.skills) && raw.skills.every(isSkillTag))) {
+    issues.push(`${where}: "skills" must be a list of tags like "past-simple"`);
+  }
+  if (raw.level !== undefined && !isLevel(raw.level)) {
+    issues.push(`${where}: "level" must be one of ${LEVELS.join(", ")}`);
+  }
+
+  switch (raw.type) {
+    case "mcq": {
+      const options = Array.isArray(raw.options) ? raw.options : [];
+      if (options.length < 2) issues.push(`${where}: MCQ needs at least two options`);
+      const ids: unknown[] = [];
+      for (const opt of options) {
+        if (!isRecord(opt) || !MCQ_IDS.includes(opt.id as string) || !isNonEmptyString(opt.label)) {
+          issues.push(`${where}: every option needs an id (a/b/c) and a label`);
+          continue;
+        }
+        if (ids.includes(opt.id)) issues.push(`${where}: duplicate option id "${opt.id}"`);
+        ids.push(opt.id);
+      }
+      if (!ids.includes(raw.answer)) {
+        issues.push(`${where}: answer "${String(raw.answer)}" is not one of the options`);
+      }
+      break;
+    }
+    case "text": {
+      const accepted = isStringArray(raw.acceptedAnswers) ? raw.acceptedAnswers : [];
+      if (!accepted.some(isNonEmptyString)) issues.push(`${where}: "acceptedAnswers" is empty`);
+      checkGrading(raw.grading, where, issues);
+      break;
+    }
+    case "order": {
+      const words = isStringArray(raw.words) ? raw.words : [];
+      const correct = isStringArray(raw.correctOrder) ? raw.correctOrder : [];
+      if (words.length < 2 || !words.every(isNonEmptyString)) {
+        issues.push(`${where}: "words" needs at least two words`);
+      }
+      if ([...words].sort().join("\u0000") !== [...correct].sort().join("\u0000")) {
+        issues.push(`${where}: "correctOrder" must use exactly the same words as "words"`);
+      }
+      if (raw.endMark !== undefined && ![".", "?", "!"].includes(raw.endMark as string)) {
+        issues.push(`${where}: "endMark" must be ".", "?" or "!"`);
+      }
+      break;
+    }
+    case "cloze":
+      checkClozeGaps(raw, where, issues);
+      break;
+    case "listening": {
+      const dialogue = Array.isArray(raw.dialogue) ? raw.dialogue : [];
+      if (dialogue.length === 0) issues.push(`${where}: "dialogue" needs at least one line`);
+      if (!dialogue.every((l) => isRecord(l) && isNonEmptyString(l.speaker) && isNonEmptyString(l.text))) {
+        issues.push(`${where}: every dialogue line needs a "speaker" and a "text"`);
+      }
+      if (raw.audioSrc !== undefined && !isNonEmptyString(raw.audioSrc)) {
+        issues.push(`${where}: "audioSrc" must be a path`);
+      }
+      if (raw.maxPlays !== undefined && !(Number.isInteger(raw.maxPlays) && (raw.maxPlays as number) > 0)) {
+        issues.push(`${where}: "maxPlays" must be a whole number above 0`);
+      }
+      if (raw.keywords !== undefined && !isStringArray(raw.keywords)) {
+        issues.push(`${where}: "keywords" must be a list of strings`);
+      }
+      break;
+    }
+    case "short":
+      if (raw.keywords !== undefined && !isStringArray(raw.keywords)) {
+        issues.push(`${where}: "keywords" must be a list of strings`);
+      }
+      break;
+    case "writing":
+      checkRubric(raw.rubric, where, issues);
+      break;
+    default:
+      issues.push(`${where}: unknown item type "${String(raw.type)}"`);
+  }
+}
+
+/** Returns a list of problems with `raw`; an empty list means it is a valid `Test`. */
+export function findTestIssues(raw: unknown): string[] {
+  const issues: string[] = [];
+  if (!isRecord(raw)) return ["test must be an object"];
+
+  for (const key of ["title", "readingTitle", "readingText"] as const) {
+    if (!isNonEmptyString(raw[key])) issues.push(`missing "${key}"`);
+  }
+  checkMinutes(raw.timeLimitMinutes, "test", issues);
+  if (raw.glossary !== undefined) {
+    if (!isRecord(raw.glossary)) issues.push(`"glossary" must map words to translations`);
+    else {
+      for (const [word, gloss] of Object.entries(raw.glossary)) {
+        if (word !== word.trim().toLowerCase() || !word) issues.push(`glossary: "${word}" must be a lower-case word`);
+        if (!isNonEmptyString(gloss)) issues.push(`glossary: "${word}" needs a translation`);
+      }
+    }
+  }
+  if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+    issues.push(`"sections" must be a non-empty list`);
+    return issues;
+  }
+
+  const seenItemIds = new Set<string>();
+  const seenSectionIds = new Set<string>();
+  raw.sections.forEach((section: unknown, sIdx: number) => {
+    const where = `sections[${sIdx}]`;
+    if (!isRecord(section)) {
+      issues.push(`${where}: section must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(section.id)) issues.push(`${where}: missing "id"`);
+    else if (seenSectionIds.has(section.id)) issues.push(`${where}: duplicate section id "${section.id}"`);
+    else seenSectionIds.add(section.id);
+    if (!isNonEmptyString(section.name)) issues.push(`${where}: missing "name"`);
+    checkMinutes(section.timeLimitMinutes, where, issues);
+    if (!Array.isArray(section.items) || section.items.length === 0) {
+      issues.push(`${where}: "items" must be a non-empty list`);
+      return;
+    }
+
+    section.items.forEach((item: unknown, iIdx: number) => {
+      const itemWhere = `${where}.items[${iIdx}]`;
+      checkItem(item, itemWhere, issues);
+      if (isRecord(item) && isNonEmptyString(item.id)) {
+        if (seenItemIds.has(item.id)) issues.push(`${itemWhere}: duplicate item id "${item.id}"`);
+        seenItemIds.add(item.id);
+      }
+    });
+  });
+
+  return issues;
+}
+
+/** Checks `raw` against the `Test` shape and throws a `TestValidationError` listing every problem. */
+export function validateTest(raw: unknown, source: string): Test {
+  const issues = findTestIssues(raw);
+  if (issues.length) throw new TestValidationError(source, issues);
+  return raw as Test;
+}
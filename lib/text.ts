@@ -0,0 +1,32 @@
+/** -----------------------------
+ *  Text Helpers
+ *  ----------------------------- */
+export function normalize(s: string) {
+  return (s || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function containsAnyKeyword(text: string, keywords: string[] = []) {
+  const t = normalize(text);
+  return keywords.some((k) => t.includes(normalize(k)));
+}
+
+/** Letters to insert, delete, change or swap (two neighbours) to turn `a` into `b`. */
+export function editDistance(a: string, b: string) {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
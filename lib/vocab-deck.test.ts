@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { collectDeckWords, dueCards, glossChoices, scheduleReview, type VocabCard } from "@/lib/vocab-deck";
+import type { Test } from "@/lib/tests/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function card(word: string, gloss: string | null, due = 0): VocabCard {
+  return { word, gloss, ease: 2.5, intervalDays: 0, reps: 0, lapses: 0, due, addedAt: 0 };
+}
+
+const test: Test = {
+  title: "Sample",
+  readingTitle: "A short text",
+  readingText: "Tom went to school. He forgot his homework.",
+  glossary: { forgot: "glemte" },
+  sections: [
+    {
+      id: "s1",
+      name: "Vocabulary",
+      items: [
+        {
+          id: "q1",
+          type: "mcq",
+          prompt: "Tom went to ____.",
+          vocabWord: "School",
+          options: [
+            { id: "a", label: "school" },
+            { id: "b", label: "home" },
+          ],
+          answer: "a",
+        },
+      ],
+    },
+  ],
+};
+
+describe("scheduleReview", () => {
+  it("follows SM-2 intervals for remembered cards", () => {
+    const first = scheduleReview(card("go", "å gå"), 4, 0);
+    expect(first).toMatchObject({ reps: 1, intervalDays: 1, due: DAY });
+    const second = scheduleReview(first, 4, 0);
+    expect(second).toMatchObject({ reps: 2, intervalDays: 6, due: 6 * DAY });
+    expect(scheduleReview(second, 4, 0).intervalDays).toBe(Math.round(6 * second.ease));
+  });
+
+  it("starts a forgotten card over and never lets the ease drop below 1.3", () => {
+    const forgotten = scheduleReview({ ...card("go", "å gå"), ease: 1.3, reps: 4, intervalDays: 30 }, 0, 0);
+    expect(forgotten).toMatchObject({ reps: 0, lapses: 1, intervalDays: 1, ease: 1.3, due: DAY });
+  });
+});
+
+describe("dueCards", () => {
+  it("returns due cards, most overdue first", () => {
+    const deck = [card("a", null, 5), card("b", null, 1), card("c", null, 50)];
+    expect(dueCards(deck, 10).map((c) => c.word)).toEqual(["b", "a"]);
+  });
+});
+
+describe("glossChoices", () => {
+  it("offers the right meaning and two others from the deck", () => {
+    const deck = [card("go", "å gå"), card("school", "skole"), card("homework", "lekser")];
+    const choices = glossChoices(deck[0], deck, () => 0);
+    expect(choices).toHaveLength(3);
+    expect([...choices].sort()).toEqual(["lekser", "skole", "å gå"]);
+  });
+
+  it("fills up from the dictionary when the deck is small", () => {
+    const choices = glossChoices(card("go", "å gå"), [card("go", "å gå")], () => 0.5);
+    expect(choices).toHaveLength(3);
+    expect(new Set(choices).size).toBe(3);
+    expect(choices).toContain("å gå");
+  });
+
+  it("has nothing to offer for a card without a meaning", () => {
+    expect(glossChoices(card("tom", null), [], Math.random)).toEqual([]);
+  });
+});
+
+describe("collectDeckWords", () => {
+  it("adds missed vocabulary items, then looked-up words the glossary knows", () => {
+    expect(collectDeckWords(test, { q1: "b" }, ["forgot", "tom"])).toEqual([
+      { word: "school", gloss: "skole", example: "Tom went to school." },
+      { word: "forgot", gloss: "glemte", example: "He forgot his homework." },
+    ]);
+  });
+
+  it("leaves out vocabulary the student got right", () => {
+    expect(collectDeckWords(test, { q1: "a" }, [])).toEqual([]);
+  });
+});
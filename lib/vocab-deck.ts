@@ -0,0 +1,124 @@
+import type { Test } from "@/lib/tests/types";
+import { readJSON, writeJSON } from "@/lib/storage";
+import { itemMaxPoints, itemPoints, type Answers } from "@/lib/scoring";
+import { dictionaryGlosses, lookupWord } from "@/lib/glossary";
+import { shuffle } from "@/lib/shuffle";
+
+/** -----------------------------
+ *  Vocabulary Deck
+ *  ----------------------------- */
+// Words to practise again: the target word of every missed vocabulary item, and every word the
+// student looked up in a reading text. Reviews are scheduled with SM-2 (the SuperMemo 2 algorithm).
+export type VocabCard = {
+  word: string; // lower-case English, also the card's id
+  gloss: string | null; // Norwegian, from the test's glossary or the bundled dictionary
+  example?: string; // the sentence the word was met in
+  ease: number; // SM-2 easiness factor, never below 1.3
+  intervalDays: number;
+  reps: number; // successful reviews in a row
+  lapses: number;
+  due: number; // epoch ms
+  addedAt: number; // epoch ms
+};
+
+export type NewCard = Pick<VocabCard, "word" | "gloss" | "example">;
+
+// 0–5 as in SM-2; below 3 counts as forgotten.
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const VOCAB_DECK_STORAGE_KEY = "vocab-deck";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+function sentenceContaining(text: string, word: string) {
+  const sentences = text.match(/[^.!?\n]+[.!?]?/g) ?? [];
+  const re = new RegExp(`\\b${word.replace(/[^a-z'-]/gi, "")}`, "i");
+  return sentences.find((s) => re.test(s))?.trim();
+}
+
+/** The words an attempt adds to the deck: missed vocabulary items first, then looked-up words. */
+export function collectDeckWords(test: Test, answers: Answers, lookups: string[]): NewCard[] {
+  const cards: NewCard[] = [];
+  for (const s of test.sections) {
+    for (const it of s.items) {
+      if (!it.vocabWord || itemPoints(it, answers) >= itemMaxPoints(it)) continue;
+      const answer = it.type === "mcq" ? it.options.find((o) => o.id === it.answer)?.label : undefined;
+      cards.push({
+        word: it.vocabWord.toLowerCase(),
+        gloss: lookupWord(it.vocabWord, test.glossary)?.gloss ?? null,
+        example: answer ? it.prompt.replace(/_{2,}/, answer) : undefined,
+      });
+    }
+  }
+  for (const looked of lookups) {
+    const found = lookupWord(looked, test.glossary);
+    if (!found) continue; // names and other words the glossary doesn't know
+    cards.push({
+      word: found.base,
+      gloss: found.gloss,
+      example: sentenceContaining(test.readingText, looked),
+    });
+  }
+  return cards;
+}
+
+/**
+ * Adds new words to the deck, due straight away. A word that is already in the deck and was
+ * missed again is made due again, but keeps its history.
+ */
+export function addToDeck(words: NewCard[], now: number) {
+  if (words.length === 0) return;
+  const deck = readJSON<VocabCard[]>(VOCAB_DECK_STORAGE_KEY) ?? [];
+  const byWord = new Map(deck.map((c) => [c.word, c]));
+  for (const w of words) {
+    const existing = byWord.get(w.word);
+    byWord.set(
+      w.word,
+      existing
+        ? { ...existing, gloss: existing.gloss ?? w.gloss, due: Math.min(existing.due, now) }
+        : { ...w, ease: START_EASE, intervalDays: 0, reps: 0, lapses: 0, due: now, addedAt: now }
+    );
+  }
+  writeJSON(VOCAB_DECK_STORAGE_KEY, [...byWord.values()]);
+}
+
+/** SM-2: the next schedule for `card` after a review of the given quality. */
+export function scheduleReview(card: VocabCard, quality: ReviewQuality, now: number): VocabCard {
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  if (quality < 3) {
+    return { ...card, ease, reps: 0, lapses: card.lapses + 1, intervalDays: 1, due: now + DAY_MS };
+  }
+  const intervalDays = card.reps === 0 ? 1 : card.reps === 1 ? 6 : Math.round(card.intervalDays * card.ease);
+  return { ...card, ease, reps: card.reps + 1, intervalDays, due: now + intervalDays * DAY_MS };
+}
+
+export function saveCard(card: VocabCard) {
+  const deck = readJSON<VocabCard[]>(VOCAB_DECK_STORAGE_KEY) ?? [];
+  writeJSON(VOCAB_DECK_STORAGE_KEY, deck.map((c) => (c.word === card.word ? card : c)));
+}
+
+export function removeCard(word: string) {
+  const deck = readJSON<VocabCard[]>(VOCAB_DECK_STORAGE_KEY) ?? [];
+  writeJSON(VOCAB_DECK_STORAGE_KEY, deck.filter((c) => c.word !== word));
+}
+
+/** Cards due at `now`, most overdue first. */
+export function dueCards(deck: VocabCard[], now: number) {
+  return deck.filter((c) => c.due <= now).sort((a, b) => a.due - b.due);
+}
+
+/**
+ * Three Norwegian meanings to choose from for a multiple-choice drill, one of them right.
+ * Wrong meanings come from the rest of the deck first, then from the bundled dictionary.
+ */
+export function glossChoices(card: VocabCard, deck: VocabCard[], random: () => number = Math.random) {
+  if (!card.gloss) return [];
+  const others = shuffle(
+    [...new Set(deck.map((c) => c.gloss).filter((g): g is string => !!g && g !== card.gloss))],
+    random
+  );
+  const fillers = shuffle(dictionaryGlosses().filter((g) => g !== card.gloss && !others.includes(g)), random);
+  return shuffle([card.gloss, ...[...others, ...fillers].slice(0, 2)], random);
+}
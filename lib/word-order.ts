@@ -0,0 +1,35 @@
+import type { OrderItem } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Word Order Answers
+ *  ----------------------------- */
+// An "order" answer is stored like every other answer, as a string: the indices into
+// `item.words` of the placed tiles, in sentence order ("4,3,2,1,0").
+
+export function parseOrderAnswer(item: OrderItem, value: string | undefined): number[] {
+  if (!value) return [];
+  const seen = new Set<number>();
+  const out: number[] = [];
+  for (const part of value.split(",")) {
+    const i = Number(part);
+    if (!Number.isInteger(i) || i < 0 || i >= item.words.length || seen.has(i)) return [];
+    seen.add(i);
+    out.push(i);
+  }
+  return out;
+}
+
+export function serializeOrderAnswer(indices: number[]) {
+  return indices.join(",");
+}
+
+/** Builds the sentence: first letter capitalised, end mark added ("She likes her new school."). */
+export function orderSentence(words: string[], endMark: OrderItem["endMark"] = ".") {
+  if (words.length === 0) return "";
+  const text = words.join(" ");
+  return text.charAt(0).toUpperCase() + text.slice(1) + endMark;
+}
+
+export function orderAnswerWords(item: OrderItem, value: string | undefined) {
+  return parseOrderAnswer(item, value).map((i) => item.words[i]);
+}
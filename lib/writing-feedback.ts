@@ -0,0 +1,223 @@
+import type { ShortItem, Test, WritingItem } from "@/lib/tests/types";
+import { splitWords } from "@/lib/glossary";
+import { isKnownWord, suggestSpelling, testVocabulary } from "@/lib/spelling";
+
+/** -----------------------------
+ *  Writing Feedback
+ *  ----------------------------- */
+// Offline checks for free-text answers, shown on Results next to the rubric. They are hints, not
+// grading: sentence count against the task, capitals and end marks, an obvious tense mismatch and
+// spelling. Everything is worked out from the answer text, so old attempts get feedback too.
+export type Tense = "past" | "present" | "future";
+
+export type Sentence = { start: number; end: number; text: string }; // offsets into the answer
+
+export type FeedbackIssue =
+  | { kind: "count"; found: number; min: number; max: number }
+  | { kind: "capital"; sentence: number } // 1-based sentence number
+  | { kind: "end-mark"; sentence: number }
+  | { kind: "tense"; expected: Tense }
+  | { kind: "spelling"; word: string; suggestion: string | null };
+
+export type Highlight = { start: number; end: number; kind: "spelling" | "style" };
+
+export type WritingFeedback = {
+  sentences: Sentence[];
+  issues: FeedbackIssue[];
+  highlights: Highlight[]; // sorted and non-overlapping
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const COUNT = "(\\d+|one|two|three|four|five|six|seven|eight|nine|ten)";
+const SENTENCE_COUNT = new RegExp(
+  `\\b${COUNT}(?:\\s*(?:[–—-]|to|or)\\s*${COUNT})?\\s+(?:full\\s+|short\\s+|complete\\s+)?sentences?\\b`,
+  "i"
+);
+
+function countValue(s: string) {
+  return /^\d+$/.test(s) ? Number(s) : NUMBER_WORDS[s.toLowerCase()];
+}
+
+/** How many sentences the task asks for ("Write 6–8 sentences", "Write ONE full sentence"), or null. */
+export function expectedSentences(item: ShortItem | WritingItem): { min: number; max: number } | null {
+  for (const text of [item.prompt, item.guidance ?? ""]) {
+    const m = SENTENCE_COUNT.exec(text);
+    if (!m) continue;
+    const a = countValue(m[1]);
+    const b = m[2] ? countValue(m[2]) : a;
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  return null;
+}
+
+/** The tense the task names ("in the past tense", "future tense"), or null. */
+export function expectedTense(item: ShortItem | WritingItem): Tense | null {
+  const m = /\b(past|present|future)\s+(?:simple\s+)?tense\b/i.exec(`${item.prompt} ${item.guidance ?? ""}`);
+  return m ? (m[1].toLowerCase() as Tense) : null;
+}
+
+// "Mr. Smith" is one sentence, not two.
+const ABBREVIATION = /\b(?:mr|mrs|ms|dr|st)\.$/i;
+
+/** Sentences end at . ! or ? (and any closing quotes) or at a line break. */
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const m of text.matchAll(/[^\s][^.!?\n]*(?:[.!?]+["'”’)]*)?/g)) {
+    const start = m.index ?? 0;
+    const raw = m[0].trimEnd();
+    const prev = sentences[sentences.length - 1];
+    if (prev && ABBREVIATION.test(prev.text) && !text.slice(prev.end, start).includes("\n")) {
+      prev.end = start + raw.length;
+      prev.text = text.slice(prev.start, prev.end);
+    } else {
+      sentences.push({ start, end: start + raw.length, text: raw });
+    }
+  }
+  return sentences.filter((s) => /[A-Za-z]/.test(s.text));
+}
+
+const IRREGULAR_PAST = new Set(
+  (
+    "was were had did went came saw got made took gave found thought told said knew felt left met " +
+    "ran sat stood wrote read ate drank slept bought brought taught caught won lost began became " +
+    "spoke broke chose drove flew forgot grew heard held kept paid put rode sang sold sent spent " +
+    "swam threw understood woke wore built fell fought hid hurt let lay rang rose shook shut sank " +
+    "stole stuck swept tore cost cut meant could wasn't weren't didn't couldn't hadn't"
+  ).split(" ")
+);
+
+// Words ending in -ed that aren't past forms.
+const NOT_PAST_ED = new Set(["bed", "red", "need", "feed", "seed", "speed", "indeed", "hundred", "shed", "weed"]);
+
+const FUTURE = /\bwill\b|\bwon't\b|\bshall\b|'ll\b|\bgoing to\b|\bgonna\b/;
+const PRESENT_BE_DO_HAVE = /\b(?:am|is|are|do|does|have|has|isn't|aren't|don't|doesn't|haven't|hasn't)\b|'m\b|'re\b/;
+
+function lowerWords(text: string) {
+  return splitWords(text)
+    .filter((s) => s.kind === "word")
+    .map((s) => s.text.toLowerCase().replace(/’/g, "'"));
+}
+
+function hasPast(words: string[]) {
+  return words.some(
+    (w) => IRREGULAR_PAST.has(w) || (w.length > 3 && w.endsWith("ed") && !NOT_PAST_ED.has(w))
+  );
+}
+
+/** True when the answer clearly isn't in the tense the task asks for. */
+export function tenseMismatch(text: string, expected: Tense) {
+  const lower = text.toLowerCase().replace(/’/g, "'");
+  const words = lowerWords(lower);
+  const future = FUTURE.test(lower);
+  if (expected === "future") return !future;
+  if (expected === "past") return !hasPast(words);
+  return future || (hasPast(words) && !PRESENT_BE_DO_HAVE.test(lower));
+}
+
+function wordRanges(text: string, offset: number) {
+  const ranges: { start: number; end: number; text: string }[] = [];
+  let at = offset;
+  for (const seg of splitWords(text)) {
+    if (seg.kind === "word") ranges.push({ start: at, end: at + seg.text.length, text: seg.text });
+    at += seg.text.length;
+  }
+  return ranges;
+}
+
+/** Feedback for one short or writing answer, or null when it's empty. */
+export function analyzeWriting(
+  item: ShortItem | WritingItem,
+  answer: string,
+  vocabulary: Set<string> = new Set()
+): WritingFeedback | null {
+  if (!answer.trim()) return null;
+  const sentences = splitSentences(answer);
+  const issues: FeedbackIssue[] = [];
+  const highlights: Highlight[] = [];
+
+  // Sentence checks only make sense when the task asks for sentences; "Write two activities" doesn't.
+  const expected = expectedSentences(item);
+  const wantsSentences =
+    item.type === "writing" || expected !== null || /\bsentences?\b/i.test(`${item.prompt} ${item.guidance ?? ""}`);
+
+  if (expected && (sentences.length < expected.min || sentences.length > expected.max)) {
+    issues.push({ kind: "count", found: sentences.length, ...expected });
+  }
+
+  const misspelt = new Map<string, string | null>();
+  sentences.forEach((s, i) => {
+    const words = wordRanges(s.text, s.start);
+    for (const [n, w] of words.entries()) {
+      // Capitalised words inside a sentence are taken to be names; all-caps ones to be acronyms or emphasis.
+      if ((n > 0 && /^[A-Z]/.test(w.text)) || (w.text.length > 1 && w.text === w.text.toUpperCase())) continue;
+      if (isKnownWord(w.text, vocabulary)) continue;
+      const key = w.text.toLowerCase();
+      if (!misspelt.has(key)) misspelt.set(key, suggestSpelling(key));
+      highlights.push({ start: w.start, end: w.end, kind: "spelling" });
+    }
+    if (!wantsSentences || words.length === 0) return;
+    if (/^[a-z]/.test(s.text)) {
+      issues.push({ kind: "capital", sentence: i + 1 });
+      highlights.push({ start: words[0].start, end: words[0].end, kind: "style" });
+    }
+    if (!/[.!?]["'”’)]*$/.test(s.text)) {
+      issues.push({ kind: "end-mark", sentence: i + 1 });
+      const last = words[words.length - 1];
+      highlights.push({ start: last.start, end: last.end, kind: "style" });
+    }
+  });
+
+  const tense = expectedTense(item);
+  if (tense && tenseMismatch(answer, tense)) issues.push({ kind: "tense", expected: tense });
+
+  for (const [word, suggestion] of misspelt) issues.push({ kind: "spelling", word, suggestion });
+
+  // A word can be both misspelt and the start or end of a sentence; the spelling mark wins.
+  const sorted = highlights.sort((a, b) => a.start - b.start || (a.kind === "spelling" ? -1 : 1));
+  const merged: Highlight[] = [];
+  for (const h of sorted) {
+    if (merged.length && h.start < merged[merged.length - 1].end) continue;
+    merged.push(h);
+  }
+
+  return { sentences, issues, highlights: merged };
+}
+
+/** Feedback for every answered short and writing item in `test`, by item id. */
+export function testFeedback(test: Test, answers: Record<string, string>): Record<string, WritingFeedback> {
+  const vocabulary = testVocabulary(test);
+  const feedback: Record<string, WritingFeedback> = {};
+  for (const item of test.sections.flatMap((s) => s.items)) {
+    if (item.type !== "short" && item.type !== "writing") continue;
+    const f = analyzeWriting(item, answers[item.id] ?? "", vocabulary);
+    if (f) feedback[item.id] = f;
+  }
+  return feedback;
+}
+
+export type AnswerPart = { text: string; highlight?: Highlight["kind"] };
+
+/** Splits the answer into plain and highlighted runs for display. */
+export function highlightParts(answer: string, highlights: Highlight[]): AnswerPart[] {
+  const parts: AnswerPart[] = [];
+  let last = 0;
+  for (const h of highlights) {
+    if (h.start > last) parts.push({ text: answer.slice(last, h.start) });
+    parts.push({ text: answer.slice(h.start, h.end), highlight: h.kind });
+    last = h.end;
+  }
+  if (last < answer.length) parts.push({ text: answer.slice(last) });
+  return parts;
+}
@@ -0,0 +1,88 @@
+import type { RubricCriterion, WritingItem } from "@/lib/tests/types";
+
+/** -----------------------------
+ *  Writing Rubric
+ *  ----------------------------- */
+// Writing is scored per item against a rubric, either by the student (self-assessment while
+// taking the test) or by a teacher or parent looking at the results.
+export type WritingScore = {
+  by: "student" | "reviewer";
+  criteria: Record<string, number>; // criterion id → points
+};
+
+export type WritingScores = Record<string, WritingScore>; // item id → score
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  {
+    id: "task",
+    label: "Task completion",
+    labelNb: "Svarer på oppgaven",
+    hint: "Answers every part of the task and stays on topic.",
+    hintNb: "Svarer på alle delene av oppgaven og holder seg til temaet.",
+    max: 2,
+  },
+  {
+    id: "sentences",
+    label: "Number of sentences",
+    labelNb: "Antall setninger",
+    hint: "Writes as many sentences as the task asks for.",
+    hintNb: "Skriver så mange setninger som oppgaven ber om.",
+    max: 2,
+  },
+  {
+    id: "tense",
+    label: "Verb tense",
+    labelNb: "Verbtid",
+    hint: "Uses the right tense for the time written about.",
+    hintNb: "Bruker riktig verbtid for tiden det skrives om.",
+    max: 2,
+  },
+  {
+    id: "accuracy",
+    label: "Spelling and punctuation",
+    labelNb: "Rettskriving og tegnsetting",
+    hint: "Capital letters, full stops and spelling are right.",
+    hintNb: "Store bokstaver, punktum og rettskriving er riktig.",
+    max: 2,
+  },
+  {
+    id: "vocabulary",
+    label: "Vocabulary range",
+    labelNb: "Ordforråd",
+    hint: "Uses varied words, not the same few again and again.",
+    hintNb: "Bruker varierte ord, ikke de samme få om og om igjen.",
+    max: 2,
+  },
+];
+
+export function itemRubric(item: WritingItem) {
+  return item.rubric?.length ? item.rubric : DEFAULT_RUBRIC;
+}
+
+export function rubricMax(item: WritingItem) {
+  return itemRubric(item).reduce((sum, c) => sum + c.max, 0);
+}
+
+/** Points for a writing item; criteria not scored yet count as 0. */
+export function writingPoints(item: WritingItem, scores: WritingScores) {
+  const given = scores[item.id]?.criteria ?? {};
+  return itemRubric(item).reduce((sum, c) => sum + Math.max(0, Math.min(c.max, given[c.id] ?? 0)), 0);
+}
+
+export function isWritingScored(item: WritingItem, scores: WritingScores) {
+  const given = scores[item.id]?.criteria ?? {};
+  return itemRubric(item).every((c) => typeof given[c.id] === "number");
+}
+
+/**
+ * The item's score with one criterion changed. A reviewer starts from the student's
+ * self-assessment; once they change anything, the whole item counts as reviewer-scored.
+ */
+export function scoreCriterion(
+  current: WritingScore | undefined,
+  criterionId: string,
+  points: number,
+  by: WritingScore["by"]
+): WritingScore {
+  return { by, criteria: { ...current?.criteria, [criterionId]: points } };
+}
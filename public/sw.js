@@ -0,0 +1,157 @@
+/** -----------------------------
+ *  Service Worker
+ *  ----------------------------- */
+// Keeps the installed app working without a network (school Wi-Fi). On install it precaches every
+// page in /precache.json (lib/offline.ts) plus the scripts, styles and fonts those pages link to,
+// and then answers from that copy first. Attempts and history live in local storage, so they are
+// there offline as long as the pages are.
+//
+// A deploy doesn't change this file, so the browser won't notice it. Instead the page asks
+// ("check-update") and we compare the assets a fresh copy of it links to with the cached ones; when
+// they differ the page offers a reload, which swaps the whole shell at once ("apply-update").
+// Bump VERSION when the caching logic here changes; the page then offers the new worker instead.
+const VERSION = 1;
+const CACHE = `english-practice-v${VERSION}`;
+
+// Hashed build files, also the ones named inside the inline page payload.
+const STATIC_ASSET = /\/_next\/static\/[\w\-.~%/]+\.\w+/g;
+// Icons, the manifest and stylesheets in <head>.
+const LINK_HREF = /<link[^>]+href="(\/[^"]*)"/g;
+const CSS_URL = /url\(\s*["']?([^"')]+)["']?\s*\)/g;
+
+function absolute(url, base = self.location.origin) {
+  return new URL(url, base).href;
+}
+
+function pageAssets(html) {
+  const urls = new Set();
+  for (const [url] of html.matchAll(STATIC_ASSET)) urls.add(absolute(url));
+  for (const [, url] of html.matchAll(LINK_HREF)) urls.add(absolute(url.replace(/&amp;/g, "&")));
+  return urls;
+}
+
+async function fetchFresh(url) {
+  const res = await fetch(url, { cache: "no-cache" });
+  if (!res.ok) throw new Error(`${url}: ${res.status}`);
+  return res;
+}
+
+/** Downloads the whole shell into memory, keyed by absolute URL. Fails if anything is missing. */
+async function downloadShell() {
+  const { pages, files } = await (await fetchFresh("/precache.json")).json();
+  const shell = new Map();
+  const assets = new Set();
+
+  await Promise.all(
+    pages.map(async (page) => {
+      const res = await fetchFresh(page);
+      shell.set(absolute(page), res);
+      for (const url of pageAssets(await res.clone().text())) assets.add(url);
+    })
+  );
+  for (const file of files) assets.add(absolute(file));
+
+  await Promise.all(
+    [...assets].map(async (url) => {
+      const res = await fetchFresh(url);
+      shell.set(url, res);
+      // Fonts are only named in the stylesheets.
+      if (new URL(url).pathname.endsWith(".css")) {
+        for (const [, font] of (await res.clone().text()).matchAll(CSS_URL)) {
+          if (font.startsWith("data:")) continue;
+          const fontUrl = absolute(font, url);
+          if (!shell.has(fontUrl)) shell.set(fontUrl, await fetchFresh(fontUrl));
+        }
+      }
+    })
+  );
+  return shell;
+}
+
+// Downloading everything first means a dropped connection leaves the old shell untouched.
+async function installShell() {
+  const shell = await downloadShell();
+  const cache = await caches.open(CACHE);
+  await Promise.all([...shell].map(([url, res]) => cache.put(url, res)));
+  for (const req of await cache.keys()) {
+    if (!shell.has(req.url)) await cache.delete(req);
+  }
+}
+
+/** True when a fresh copy of `path` links to assets the cache doesn't have, i.e. after a deploy. */
+async function updateAvailable(path) {
+  const cache = await caches.open(CACHE);
+  let html;
+  try {
+    html = await (await fetchFresh(path)).text();
+  } catch {
+    return false; // offline, or the page is gone; nothing to offer
+  }
+  for (const url of pageAssets(html)) {
+    if (!(await cache.match(url))) return true;
+  }
+  return false;
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(installShell());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith("english-practice-") && name !== CACHE) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  const client = event.source;
+  switch (event.data?.type) {
+    case "check-update":
+      event.waitUntil(
+        updateAvailable(event.data.path).then((available) => {
+          if (available) client.postMessage({ type: "update-available" });
+        })
+      );
+      break;
+    case "apply-update":
+      event.waitUntil(
+        installShell().then(
+          () => client.postMessage({ type: "update-applied" }),
+          () => client.postMessage({ type: "update-failed" })
+        )
+      );
+      break;
+    case "skip-waiting":
+      self.skipWaiting();
+      break;
+  }
+});
+
+// Pages are matched without their query (/report?attempt=…), since they read it on the client.
+// Everything else is matched exactly; build assets missing from the shell are cached as they load.
+// Offline, a page outside the shell opens the home page instead of the browser's error page, and
+// any other request fails like a network error rather than rejecting inside respondWith().
+async function respond(request) {
+  const url = new URL(request.url);
+  const cache = await caches.open(CACHE);
+  if (request.mode === "navigate") {
+    const page = await cache.match(absolute(url.pathname));
+    return page ?? fetch(request).catch(async () => (await cache.match(absolute("/"))) ?? Response.error());
+  }
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request).catch(() => Response.error());
+  if (res.ok && url.pathname.startsWith("/_next/static/")) await cache.put(request, res.clone());
+  return res;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+  event.respondWith(respond(request));
+});